@@ -0,0 +1,49 @@
+// _shared/audit.ts
+// Area/Cabinet/Inventory/Substance/알림 규칙/폐기 변경 기록(감사 로그)
+
+import { AuthUser } from './auth.ts';
+import { supabase } from './supabaseClient.ts';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+export type AuditTable = 'Area' | 'Cabinet' | 'Inventory' | 'Substance' | 'InventoryAlertRule' | 'Disposal' | 'WasteContainer';
+
+type AuditRow = Record<string, unknown>;
+
+export interface AuditEntry {
+    action: AuditAction;
+    table: AuditTable;
+    rowId: number | string;
+    before?: AuditRow | null;
+    after?: AuditRow | null;
+}
+
+// 시약장별로 조회할 수 있도록 변경 전/후에 관련된 시약장 ID를 모두 모읍니다. (병 이동은 두 시약장 모두)
+function collectCabinetIds(entry: AuditEntry): number[] {
+    const ids = new Set<number>();
+    if (entry.table === 'Cabinet') ids.add(Number(entry.rowId));
+    if (entry.table === 'Inventory') {
+        for (const row of [entry.before, entry.after]) {
+            if (row?.cabinet_id != null) ids.add(Number(row.cabinet_id));
+        }
+    }
+    return [...ids];
+}
+
+// 감사 로그 기록 실패가 원래 작업을 되돌리지는 않으므로, 오류는 로그로만 남깁니다.
+export async function recordAudit(actor: AuthUser, entries: AuditEntry | AuditEntry[]) {
+    const list = Array.isArray(entries) ? entries : [entries];
+    if (list.length === 0) return;
+
+    const { error } = await supabase.from('AuditLog').insert(list.map((entry) => ({
+        actor_id: actor.id,
+        actor_email: actor.email,
+        actor_role: actor.role,
+        action: entry.action,
+        table_name: entry.table,
+        row_id: String(entry.rowId),
+        cabinet_ids: collectCabinetIds(entry),
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+    })));
+    if (error) console.error(`감사 로그 기록 오류 (${list.map((e) => `${e.action} ${e.table}#${e.rowId}`).join(', ')}):`, error.message);
+}
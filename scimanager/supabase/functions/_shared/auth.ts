@@ -0,0 +1,63 @@
+// _shared/auth.ts
+// 요청의 Authorization 토큰으로 사용자를 확인하고 역할(role)별 권한을 검사합니다.
+
+import { HttpError } from './errors.ts';
+import { supabase } from './supabaseClient.ts';
+
+// admin: 관리 교사, staff: 실무 담당자, student: 조회만 가능한 학생
+export type UserRole = 'admin' | 'staff' | 'student';
+
+export const USER_ROLES: UserRole[] = ['admin', 'staff', 'student'];
+
+// 자주 쓰는 권한 묶음
+export const ANY_ROLE: UserRole[] = USER_ROLES;
+export const EDITOR_ROLES: UserRole[] = ['admin', 'staff'];
+export const ADMIN_ONLY: UserRole[] = ['admin'];
+
+export interface AuthUser {
+    id: string;
+    email: string | null;
+    role: UserRole;
+}
+
+// 역할은 사용자가 직접 바꿀 수 없는 app_metadata.role 에 저장합니다. (set_user_role SQL 함수로 지정)
+function resolveRole(appMetadata: Record<string, unknown> | undefined): UserRole {
+    const role = appMetadata?.role;
+    return USER_ROLES.includes(role as UserRole) ? role as UserRole : 'student';
+}
+
+export async function authenticate(req: Request): Promise<AuthUser> {
+    const authHeader = req.headers.get('Authorization') || '';
+    const token = authHeader.replace(/^Bearer\s+/i, '').trim();
+    if (!token) throw new HttpError(401, '로그인이 필요합니다.');
+
+    // anon 키처럼 사용자 정보가 없는 토큰은 여기서 거부됩니다.
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data?.user) throw new HttpError(401, `로그인 정보를 확인할 수 없습니다: ${error?.message || ''}`);
+
+    return {
+        id: data.user.id,
+        email: data.user.email ?? null,
+        role: resolveRole(data.user.app_metadata),
+    };
+}
+
+export function requireRole(user: AuthUser, allowedRoles: UserRole[]) {
+    if (!allowedRoles.includes(user.role)) {
+        throw new HttpError(403, `권한이 없습니다. (필요: ${allowedRoles.join(', ')} / 현재: ${user.role})`);
+    }
+}
+
+// 로그인 확인과 역할 검사를 한 번에 합니다.
+export async function authorize(req: Request, allowedRoles: UserRole[]): Promise<AuthUser> {
+    const user = await authenticate(req);
+    requireRole(user, allowedRoles);
+    return user;
+}
+
+// 예약 작업(pg_cron 등)은 사용자 대신 서비스 롤 키로 호출합니다.
+export function isServiceRoleRequest(req: Request): boolean {
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '').trim();
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    return Boolean(serviceRoleKey) && token === serviceRoleKey;
+}
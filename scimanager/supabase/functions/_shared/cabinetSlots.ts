@@ -0,0 +1,94 @@
+// _shared/cabinetSlots.ts
+// 시약장 칸(문/선반/열) 좌표 검증과 점유 상태 조회
+
+import { HttpError } from './errors.ts';
+import { supabase } from './supabaseClient.ts';
+
+export interface CabinetGeometry {
+    id: number;
+    door_vertical_count: number;
+    door_horizontal_count: number;
+    shelf_height: number;
+    storage_columns: number;
+}
+
+// 모든 좌표는 1부터 시작합니다.
+export interface SlotCoordinates {
+    door_vertical: number;
+    door_horizontal: number;
+    internal_shelf_level: number;
+    storage_column: number;
+}
+
+export const CABINET_GEOMETRY_COLUMNS = 'id, door_vertical_count, door_horizontal_count, shelf_height, storage_columns';
+
+const SLOT_LIMITS: [keyof SlotCoordinates, keyof CabinetGeometry, string][] = [
+    ['door_vertical', 'door_vertical_count', '문 세로 위치'],
+    ['door_horizontal', 'door_horizontal_count', '문 가로 위치'],
+    ['internal_shelf_level', 'shelf_height', '선반 층'],
+    ['storage_column', 'storage_columns', '보관 열'],
+];
+
+export function slotKey(slot: SlotCoordinates): string {
+    return `${slot.door_vertical}-${slot.door_horizontal}-${slot.internal_shelf_level}-${slot.storage_column}`;
+}
+
+// 보고서/라벨에 쓰는 사람이 읽는 위치 표기 (예: "문 1-2, 3층 4열")
+export function formatSlotLabel(slot: Partial<SlotCoordinates>): string {
+    if (slot.door_vertical == null || slot.door_horizontal == null || slot.internal_shelf_level == null || slot.storage_column == null) {
+        return '칸 미지정';
+    }
+    return `문 ${slot.door_vertical}-${slot.door_horizontal}, ${slot.internal_shelf_level}층 ${slot.storage_column}열`;
+}
+
+// 요청의 칸 좌표가 시약장 크기 안에 있는지 검증합니다.
+export function validateSlot(cabinet: CabinetGeometry, raw: Partial<Record<keyof SlotCoordinates, unknown>>): SlotCoordinates {
+    const slot = {} as SlotCoordinates;
+    for (const [field, limitField, label] of SLOT_LIMITS) {
+        const value = Number(raw[field]);
+        const max = cabinet[limitField];
+        if (raw[field] == null || !Number.isInteger(value) || value < 1 || value > max) {
+            throw new HttpError(400, `${label}(${field}) 값 '${raw[field] ?? ''}'이(가) 시약장(ID: ${cabinet.id}) 범위(1~${max})를 벗어났습니다.`);
+        }
+        slot[field] = value;
+    }
+    return slot;
+}
+
+export function isSlotInside(cabinet: CabinetGeometry, slot: Partial<Record<keyof SlotCoordinates, unknown>>): boolean {
+    return SLOT_LIMITS.every(([field, limitField]) => {
+        const value = slot[field];
+        return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= cabinet[limitField];
+    });
+}
+
+export async function fetchCabinetGeometry(cabinetId: number): Promise<CabinetGeometry> {
+    const { data: cabinet, error } = await supabase
+        .from('Cabinet')
+        .select(`${CABINET_GEOMETRY_COLUMNS}, archived_at`)
+        .eq('id', cabinetId)
+        .maybeSingle();
+    if (error) throw new Error(`Cabinet 조회 오류: ${error.message}`);
+    // 보관 처리(archive)된 시약장에는 새 병을 둘 수 없습니다.
+    if (!cabinet || cabinet.archived_at) throw new HttpError(404, `시약장(ID: ${cabinetId})을 찾을 수 없습니다.`);
+    return cabinet;
+}
+
+// 칸이 비어 있지 않으면 409 오류를 던집니다.
+export async function assertSlotAvailable(cabinetId: number, slot: SlotCoordinates) {
+    const { data: occupant, error } = await supabase
+        .from('Inventory')
+        .select('id, bottle_identifier')
+        .eq('cabinet_id', cabinetId)
+        .eq('door_vertical', slot.door_vertical)
+        .eq('door_horizontal', slot.door_horizontal)
+        .eq('internal_shelf_level', slot.internal_shelf_level)
+        .eq('storage_column', slot.storage_column)
+        .is('disposed_at', null)
+        .limit(1)
+        .maybeSingle();
+    if (error) throw new Error(`Inventory 조회 오류: ${error.message}`);
+    if (occupant) {
+        throw new HttpError(409, `이미 사용 중인 칸입니다: ${slotKey(slot)} (${occupant.bottle_identifier})`);
+    }
+}
@@ -0,0 +1,261 @@
+// _shared/cabinets.ts
+// 시약장 삭제/보관(archive)과 병 재배치 (cabinet-register, casimport 공용)
+
+import { recordAudit } from './audit.ts';
+import { AuthUser } from './auth.ts';
+import { CABINET_GEOMETRY_COLUMNS, CabinetGeometry, isSlotInside, slotKey, SlotCoordinates } from './cabinetSlots.ts';
+import { CompatibilityViolation, fetchPlacements, findViolations } from './compatibility.ts';
+import { HttpError } from './errors.ts';
+import { CABINET_PHOTO_BUCKET, PhotoUrls, photoPaths, removePhotos, storagePathFromUrl } from './images.ts';
+import { supabase } from './supabaseClient.ts';
+
+// refuse: 병이 있으면 삭제 거부 (기본값)
+// reassign: 병을 다른 시약장으로 옮긴 뒤 삭제
+// archive: 병은 그대로 둔 채 시약장을 보관 처리 (목록에서만 숨김)
+export type CabinetDeletionMode = 'refuse' | 'reassign' | 'archive';
+
+export interface CabinetDeletionResult {
+    cabinetId: number;
+    mode: CabinetDeletionMode;
+    relocatedCount: number;
+    // 옮긴 병들에 대한 혼합 금지 'warn' 규칙 경고
+    warnings: CompatibilityViolation[];
+    areaDeleted: boolean;
+}
+
+interface StoredBottle extends Partial<SlotCoordinates> {
+    id: number;
+}
+
+export function parseDeletionMode(raw: string | null): CabinetDeletionMode {
+    if (raw === null || raw === '' || raw === 'refuse') return 'refuse';
+    if (raw === 'reassign' || raw === 'archive') return raw;
+    throw new HttpError(400, `알 수 없는 삭제 방식입니다: '${raw}' (사용 가능: refuse, reassign, archive)`);
+}
+
+// 기본 파일명(`${id}_320.png`)과 행에 저장된 URL이 가리키는 파일을 모두 지웁니다.
+export async function removeCabinetPhotos(cabinet: { id: number } & Partial<PhotoUrls>) {
+    await removePhotos(CABINET_PHOTO_BUCKET, [
+        ...photoPaths(String(cabinet.id)),
+        storagePathFromUrl(CABINET_PHOTO_BUCKET, cabinet.photo_url_320),
+        storagePathFromUrl(CABINET_PHOTO_BUCKET, cabinet.photo_url_160),
+    ]);
+}
+
+export async function fetchCabinetBottles(cabinetId: number): Promise<StoredBottle[]> {
+    const { data, error } = await supabase
+        .from('Inventory')
+        .select('id, door_vertical, door_horizontal, internal_shelf_level, storage_column')
+        .eq('cabinet_id', cabinetId)
+        .is('disposed_at', null);
+    if (error) throw new Error(`Inventory 조회 오류: ${error.message}`);
+    return data;
+}
+
+// 새 시약장의 기본 크기 (문 1x1, 선반 3층, 6열)
+export const DEFAULT_CABINET_DIMENSIONS = {
+    door_vertical_count: 1,
+    door_horizontal_count: 1,
+    shelf_height: 3,
+    storage_columns: 6,
+};
+
+// Area 이름으로 ID를 찾고, 없으면 새로 만듭니다.
+export async function resolveAreaId(areaName: string, user: AuthUser): Promise<number> {
+    const { data: existingArea } = await supabase.from('Area').select('id').eq('name', areaName).single();
+    if (existingArea) return existingArea.id;
+
+    const { data: newArea, error: areaInsertError } = await supabase.from('Area').insert([{ name: areaName }]).select().single();
+    if (areaInsertError) throw new Error(`Area 등록 오류: ${areaInsertError.message}`);
+    await recordAudit(user, { action: 'insert', table: 'Area', rowId: newArea.id, after: newArea });
+    return newArea.id;
+}
+
+// 시약장을 만듭니다. 크기를 주지 않은 항목은 기본 크기를 씁니다. (이름 중복 확인은 호출하는 쪽에서 합니다.)
+export async function createCabinet(areaId: number, name: string, dimensions: Partial<Record<keyof typeof DEFAULT_CABINET_DIMENSIONS, number>>, user: AuthUser) {
+    const { data: cabinet, error } = await supabase.from('Cabinet').insert([{
+        area_id: areaId,
+        name,
+        door_vertical_count: dimensions.door_vertical_count || DEFAULT_CABINET_DIMENSIONS.door_vertical_count,
+        door_horizontal_count: dimensions.door_horizontal_count || DEFAULT_CABINET_DIMENSIONS.door_horizontal_count,
+        shelf_height: dimensions.shelf_height || DEFAULT_CABINET_DIMENSIONS.shelf_height,
+        storage_columns: dimensions.storage_columns || DEFAULT_CABINET_DIMENSIONS.storage_columns,
+        created_by: user.id,
+    }]).select().single();
+    if (error) throw new Error(`Cabinet 삽입 오류: ${error.message}`);
+    await recordAudit(user, { action: 'insert', table: 'Cabinet', rowId: cabinet.id, after: cabinet });
+    return cabinet;
+}
+
+// 시약장이 하나도 남지 않은 Area를 삭제합니다. 삭제했으면 true를 반환합니다.
+export async function deleteAreaIfEmpty(areaId: number, actor: AuthUser): Promise<boolean> {
+    const { count, error: countError } = await supabase.from('Cabinet').select('*', { count: 'exact', head: true }).eq('area_id', areaId);
+    if (countError) {
+        console.error(`캐비닛 개수 확인 중 오류: ${countError.message}`);
+        return false;
+    }
+    if (count !== 0) return false;
+
+    const { data: deletedAreas, error: areaDeleteError } = await supabase.from('Area').delete().eq('id', areaId).select();
+    if (areaDeleteError) {
+        console.error(`Area (ID: ${areaId}) 삭제 중 오류 발생: ${areaDeleteError.message}`);
+        return false;
+    }
+    await recordAudit(actor, deletedAreas.map((area) => ({ action: 'delete', table: 'Area', rowId: area.id, before: area })));
+    return true;
+}
+
+// 병들을 대상 시약장으로 옮길 위치를 정합니다. 가능한 한 같은 좌표를 유지하고, 안 되면 빈 칸을 순서대로 씁니다.
+function planRelocation(bottles: StoredBottle[], target: CabinetGeometry, occupiedKeys: Set<string>): Map<number, SlotCoordinates> {
+    const plan = new Map<number, SlotCoordinates>();
+    const pending: StoredBottle[] = [];
+
+    for (const bottle of bottles) {
+        if (isSlotInside(target, bottle) && !occupiedKeys.has(slotKey(bottle as SlotCoordinates))) {
+            const slot = bottle as SlotCoordinates;
+            plan.set(bottle.id, {
+                door_vertical: slot.door_vertical,
+                door_horizontal: slot.door_horizontal,
+                internal_shelf_level: slot.internal_shelf_level,
+                storage_column: slot.storage_column,
+            });
+            occupiedKeys.add(slotKey(slot));
+        } else {
+            pending.push(bottle);
+        }
+    }
+
+    for (let v = 1; v <= target.door_vertical_count && pending.length > 0; v++) {
+        for (let h = 1; h <= target.door_horizontal_count && pending.length > 0; h++) {
+            for (let level = 1; level <= target.shelf_height && pending.length > 0; level++) {
+                for (let column = 1; column <= target.storage_columns && pending.length > 0; column++) {
+                    const slot = { door_vertical: v, door_horizontal: h, internal_shelf_level: level, storage_column: column };
+                    if (occupiedKeys.has(slotKey(slot))) continue;
+                    plan.set(pending.shift()!.id, slot);
+                    occupiedKeys.add(slotKey(slot));
+                }
+            }
+        }
+    }
+
+    if (pending.length > 0) {
+        throw new HttpError(409, `대상 시약장(ID: ${target.id})의 빈 칸이 부족합니다. (옮기지 못한 병 ${pending.length}개)`);
+    }
+    return plan;
+}
+
+// 옮긴 뒤의 칸에서 혼합 금지 규칙을 확인합니다. ('reject' 규칙이 있으면 옮기지 않고 409, 'warn' 규칙은 경고로 돌려줍니다.)
+async function checkRelocationCompatibility(plan: Map<number, SlotCoordinates>, sourceCabinetId: number, targetCabinetId: number): Promise<CompatibilityViolation[]> {
+    const placements = await fetchPlacements([sourceCabinetId, targetCabinetId]);
+    const neighbors = placements.filter((placement) => placement.cabinetId === targetCabinetId);
+    const violations: CompatibilityViolation[] = [];
+    for (const placement of placements) {
+        const slot = placement.inventoryId !== null ? plan.get(placement.inventoryId) : undefined;
+        if (!slot) continue;
+        const moved = {
+            ...placement,
+            cabinetId: targetCabinetId,
+            doorVertical: slot.door_vertical,
+            doorHorizontal: slot.door_horizontal,
+            shelfLevel: slot.internal_shelf_level,
+        };
+        // 먼저 옮긴 병들과도 함께 놓이므로 확인한 병은 이웃 목록에 더합니다.
+        violations.push(...findViolations(moved, neighbors));
+        neighbors.push(moved);
+    }
+
+    const rejections = violations.filter((v) => v.severity === 'reject');
+    if (rejections.length > 0) {
+        throw new HttpError(409, `대상 시약장(ID: ${targetCabinetId})으로 옮길 수 없습니다: ${rejections.map((v) => `${v.reason} (${v.label} / ${v.neighborLabel})`).join(' / ')}`);
+    }
+    return violations;
+}
+
+// relocate_inventory 함수가 던지는 오류 코드 → HTTP 상태 코드
+const RELOCATE_RPC_ERROR_STATUS: Record<string, number> = {
+    '55000': 409, // 옮기는 도중 병이 다른 곳으로 옮겨졌거나 폐기됨
+    '23505': 409, // 대상 칸을 동시에 다른 병이 차지함 (Inventory_slot_unique 인덱스)
+};
+
+async function relocateBottles(bottles: StoredBottle[], sourceCabinetId: number, targetCabinetId: number, actor: AuthUser): Promise<{ count: number; warnings: CompatibilityViolation[] }> {
+    if (targetCabinetId === sourceCabinetId) throw new HttpError(400, '같은 시약장으로는 옮길 수 없습니다.');
+
+    const { data: target, error: targetError } = await supabase
+        .from('Cabinet')
+        .select(`${CABINET_GEOMETRY_COLUMNS}, archived_at`)
+        .eq('id', targetCabinetId)
+        .maybeSingle();
+    if (targetError) throw new Error(`Cabinet 조회 오류: ${targetError.message}`);
+    if (!target || target.archived_at) throw new HttpError(404, `옮길 시약장(ID: ${targetCabinetId})을 찾을 수 없습니다.`);
+
+    const targetBottles = await fetchCabinetBottles(targetCabinetId);
+    const occupiedKeys = new Set(targetBottles.filter((b) => isSlotInside(target, b)).map((b) => slotKey(b as SlotCoordinates)));
+    const plan = planRelocation(bottles, target, occupiedKeys);
+    const warnings = await checkRelocationCompatibility(plan, sourceCabinetId, targetCabinetId);
+
+    // 모든 병의 이동과 감사 로그를 한 트랜잭션에서 처리합니다. (중간에 실패하면 아무 병도 옮겨지지 않습니다.)
+    const { data: count, error } = await supabase.rpc('relocate_inventory', {
+        p_source_cabinet_id: sourceCabinetId,
+        p_target_cabinet_id: targetCabinetId,
+        p_moves: [...plan].map(([id, slot]) => ({ id, ...slot })),
+        p_actor_id: actor.id,
+        p_actor_email: actor.email,
+        p_actor_role: actor.role,
+    });
+    if (error) throw new HttpError(RELOCATE_RPC_ERROR_STATUS[error.code] ?? 500, `병 이동 오류: ${error.message}`);
+    return { count, warnings };
+}
+
+// 폐기한 병은 시약장을 지워도 이력으로 남도록 시약장 연결만 끊습니다. (위치는 Disposal.location 에 남아 있습니다.)
+async function detachDisposedBottles(cabinetId: number, actor: AuthUser) {
+    const { data: detached, error } = await supabase
+        .from('Inventory')
+        .update({ cabinet_id: null })
+        .eq('cabinet_id', cabinetId)
+        .not('disposed_at', 'is', null)
+        .select('id, disposed_at');
+    if (error) throw new Error(`폐기한 병 정리 오류: ${error.message}`);
+    await recordAudit(actor, detached.map((bottle) => ({
+        action: 'update' as const,
+        table: 'Inventory' as const,
+        rowId: bottle.id,
+        before: { cabinet_id: cabinetId, disposed_at: bottle.disposed_at },
+        after: { cabinet_id: null, disposed_at: bottle.disposed_at },
+    })));
+}
+
+export async function deleteCabinet(cabinetId: number, mode: CabinetDeletionMode, targetCabinetId: number | null, actor: AuthUser): Promise<CabinetDeletionResult> {
+    const { data: cabinetToDelete, error: selectError } = await supabase.from('Cabinet').select('*').eq('id', cabinetId).single();
+    if (selectError || !cabinetToDelete) throw new HttpError(404, `삭제할 캐비닛(ID: ${cabinetId})을 찾을 수 없습니다: ${selectError?.message || ''}`);
+    const { area_id } = cabinetToDelete;
+
+    const bottles = await fetchCabinetBottles(cabinetId);
+    const result: CabinetDeletionResult = { cabinetId, mode, relocatedCount: 0, warnings: [], areaDeleted: false };
+
+    if (mode === 'archive') {
+        // 병 기록이 시약장을 계속 가리키므로 Cabinet/Area 행과 사진은 남겨 둡니다.
+        const { data: archived, error } = await supabase.from('Cabinet').update({ archived_at: new Date().toISOString() }).eq('id', cabinetId).select().single();
+        if (error) throw new Error(`Cabinet 보관 처리 오류: ${error.message}`);
+        await recordAudit(actor, { action: 'update', table: 'Cabinet', rowId: cabinetId, before: cabinetToDelete, after: archived });
+        return result;
+    }
+
+    if (bottles.length > 0) {
+        if (mode === 'refuse') {
+            throw new HttpError(409, `캐비닛(ID: ${cabinetId})에 병 ${bottles.length}개가 보관되어 있어 삭제할 수 없습니다. (mode=reassign&target_id=... 또는 mode=archive 사용)`);
+        }
+        if (targetCabinetId === null) throw new HttpError(400, '병을 옮길 시약장 ID(target_id)가 필요합니다.');
+        const relocation = await relocateBottles(bottles, cabinetId, targetCabinetId, actor);
+        result.relocatedCount = relocation.count;
+        result.warnings = relocation.warnings;
+    }
+    await detachDisposedBottles(cabinetId, actor);
+
+    const { error: deleteError } = await supabase.from('Cabinet').delete().eq('id', cabinetId);
+    if (deleteError) throw new Error(`DB 삭제 오류: ${deleteError.message}`);
+    await recordAudit(actor, { action: 'delete', table: 'Cabinet', rowId: cabinetId, before: cabinetToDelete });
+
+    await removeCabinetPhotos(cabinetToDelete);
+    result.areaDeleted = await deleteAreaIfEmpty(area_id, actor);
+    return result;
+}
@@ -0,0 +1,253 @@
+// _shared/casClient.ts
+// CAS Common Chemistry API 클라이언트 (시간 제한, 429/5xx 재시도, 응답 캐시)
+// CAS_API_BASE_URL 환경 변수로 주소를 바꿀 수 있습니다. (테스트용 모의 서버 등)
+
+import { HttpError } from './errors.ts';
+
+const CAS_API_BASE_URL = (Deno.env.get('CAS_API_BASE_URL') || 'https://commonchemistry.cas.org/api').replace(/\/+$/, '');
+const CAS_API_KEY = Deno.env.get('CAS_API_KEY') ?? '';
+
+const REQUEST_TIMEOUT_MS = Number(Deno.env.get('CAS_API_TIMEOUT_MS')) || 10_000;
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+
+// 같은 인스턴스 안에서만 유지되는 메모리 캐시입니다.
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 200;
+const responseCache = new Map<string, { expiresAt: number; body: unknown }>();
+
+export interface CasProperty {
+    name: string;
+    property: string;
+    units: string;
+}
+
+export interface CasCitation {
+    source: string;
+    url: string;
+}
+
+// CAS 이름 검색 결과 후보
+export interface CasCandidate {
+    casRn: string;
+    name: string | null;
+    source: 'local' | 'cas';
+    substanceId?: number;
+}
+
+// /detail 응답 중 사용하는 항목
+export interface CasDetail {
+    rn?: string;
+    name?: string;
+    uri?: string;
+    inchiKey?: string;
+    molecularFormula?: string;
+    molecularMass?: string;
+    hasMolfile?: boolean;
+    images?: string[];
+    synonyms?: string[];
+    experimentalProperties?: CasProperty[];
+    predictedProperties?: CasProperty[];
+    citations?: CasCitation[];
+}
+
+// DB에 저장하는 형태로 바꾼 물질 정보
+export interface SubstanceRecord {
+    name: string | null;
+    uri: string | null;
+    inchikey: string | null;
+    molecular_formula: string | null;
+    molecular_mass: number | null;
+    has_molfile: boolean;
+    svg_image: string | null;
+}
+
+export type PropertyType = 'experimental' | 'predicted';
+
+export interface PropertyRecord extends CasProperty {
+    type: PropertyType;
+}
+
+export interface SubstanceDetailRecords {
+    substance: SubstanceRecord;
+    synonyms: string[];
+    properties: PropertyRecord[];
+    citations: CasCitation[];
+}
+
+export interface CasRequestOptions {
+    // true면 캐시를 건너뛰고 새로 받아 캐시를 갱신합니다. (물질 정보 새로고침용)
+    fresh?: boolean;
+}
+
+// ------------------------------------------------------------------
+// 요청/재시도
+// ------------------------------------------------------------------
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+// Retry-After 헤더(초 또는 날짜)가 있으면 따르고, 없으면 지수 백오프에 지터를 더합니다.
+function retryDelayMs(attempt: number, response?: Response): number {
+    const retryAfter = response?.headers.get('Retry-After');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+        if (Number.isFinite(delay) && delay >= 0) return Math.min(delay, BACKOFF_MAX_MS);
+    }
+    const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+    return backoff / 2 + Math.random() * backoff / 2;
+}
+
+function readCache(url: string): unknown | undefined {
+    const cached = responseCache.get(url);
+    if (!cached) return undefined;
+    if (cached.expiresAt < Date.now()) {
+        responseCache.delete(url);
+        return undefined;
+    }
+    return cached.body;
+}
+
+function writeCache(url: string, body: unknown) {
+    responseCache.delete(url);
+    responseCache.set(url, { expiresAt: Date.now() + CACHE_TTL_MS, body });
+    // 가장 오래 전에 넣은 항목부터 지웁니다.
+    while (responseCache.size > CACHE_MAX_ENTRIES) {
+        responseCache.delete(responseCache.keys().next().value!);
+    }
+}
+
+async function requestCas(path: string, label: string, options: CasRequestOptions = {}): Promise<unknown> {
+    const url = `${CAS_API_BASE_URL}${path}`;
+    if (!options.fresh) {
+        const cached = readCache(url);
+        if (cached !== undefined) return cached;
+    }
+
+    let lastError = '';
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'GET',
+                headers: { 'X-API-KEY': CAS_API_KEY },
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+        } catch (e) {
+            // 시간 초과와 네트워크 오류는 재시도합니다.
+            lastError = e instanceof DOMException && e.name === 'TimeoutError'
+                ? `${REQUEST_TIMEOUT_MS}ms 안에 응답이 없습니다.`
+                : e instanceof Error ? e.message : String(e);
+            if (attempt < MAX_ATTEMPTS) await new Promise((resolve) => setTimeout(resolve, retryDelayMs(attempt)));
+            continue;
+        }
+
+        if (response.ok) {
+            // 점검 안내 페이지처럼 JSON이 아닌 200 응답은 일시적인 오류로 보고 다시 시도합니다.
+            const text = await response.text();
+            try {
+                const body = JSON.parse(text);
+                writeCache(url, body);
+                return body;
+            } catch {
+                lastError = `${response.status}: JSON이 아닌 응답입니다. (${text.substring(0, 100)})`;
+                if (attempt < MAX_ATTEMPTS) await new Promise((resolve) => setTimeout(resolve, retryDelayMs(attempt, response)));
+                continue;
+            }
+        }
+
+        const errorText = await response.text();
+        lastError = `${response.status}: ${errorText.substring(0, 100)}`;
+        if (response.status === 404) throw new HttpError(404, `${label} 결과가 없습니다. (${lastError})`);
+        if (!isRetryableStatus(response.status)) throw new HttpError(502, `${label} 호출 실패 (${lastError})`);
+        if (attempt < MAX_ATTEMPTS) await new Promise((resolve) => setTimeout(resolve, retryDelayMs(attempt, response)));
+    }
+
+    throw new HttpError(503, `${label} 호출 실패: ${MAX_ATTEMPTS}번 시도했지만 응답을 받지 못했습니다. (${lastError})`);
+}
+
+// ------------------------------------------------------------------
+// API 함수
+// ------------------------------------------------------------------
+
+// CAS RN을 "1234567-12-3" 형식으로 정규화하고 체크 디지트를 검증합니다.
+// "64-17-5", "64175", " 64 17 5 " 는 모두 "64-17-5"가 됩니다.
+export function normalizeCasRn(input: string): string {
+    const digits = String(input ?? '').replace(/[\s-]/g, '');
+    if (!/^\d{5,10}$/.test(digits)) {
+        throw new HttpError(400, `올바르지 않은 CAS RN 형식입니다: '${input}'`);
+    }
+
+    const body = digits.slice(0, -1);
+    const checkDigit = Number(digits.slice(-1));
+    let sum = 0;
+    for (let i = 0; i < body.length; i++) {
+        // 체크 디지트 바로 앞 자리부터 1, 2, 3... 의 가중치를 곱합니다.
+        sum += Number(body[body.length - 1 - i]) * (i + 1);
+    }
+    if (sum % 10 !== checkDigit) {
+        throw new HttpError(400, `CAS RN 체크 디지트가 일치하지 않습니다: '${input}'`);
+    }
+
+    const normalized = `${digits.slice(0, -3)}-${digits.slice(-3, -1)}-${checkDigit}`;
+    // 앞자리의 불필요한 0은 제거합니다. (예: 0064-17-5 → 64-17-5)
+    return normalized.replace(/^0+(?=\d{2,}-)/, '');
+}
+
+export async function fetchCasSearch(query: string, options?: CasRequestOptions): Promise<CasCandidate[]> {
+    const result = await requestCas(`/search?q=${encodeURIComponent(query)}`, 'CAS 검색 API', options) as { results?: { rn: string; name?: string }[] };
+    const items = Array.isArray(result?.results) ? result.results : [];
+    return items.map((item) => ({ casRn: item.rn, name: item.name?.replace(/<.+?>/g, '') || null, source: 'cas' }));
+}
+
+export async function fetchCasDetail(casRn: string, options?: CasRequestOptions): Promise<CasDetail> {
+    const detail = await requestCas(`/detail?cas_rn=${encodeURIComponent(casRn)}`, 'CAS API', options);
+    if (detail === null || typeof detail !== 'object' || Array.isArray(detail)) {
+        throw new HttpError(502, `CAS API 응답 형식이 올바르지 않습니다. (CAS RN: ${casRn})`);
+    }
+    return detail as CasDetail;
+}
+
+// CAS 상세 응답을 Substance/Synonyms/Properties/Citations 에 저장하는 형태로 바꿉니다.
+// 목록 안의 중복은 여기서 미리 걸러냅니다.
+export function toSubstanceRecords(detail: CasDetail): SubstanceDetailRecords {
+    const substance: SubstanceRecord = {
+        name: detail.name || null,
+        uri: detail.uri || null,
+        inchikey: detail.inchiKey || null,
+        molecular_formula: detail.molecularFormula?.replace(/<.+?>/g, '') || null,
+        molecular_mass: detail.molecularMass ? parseFloat(detail.molecularMass) : null,
+        has_molfile: detail.hasMolfile || false,
+        svg_image: detail.images?.[0] || null,
+    };
+
+    const synonyms = [...new Set((Array.isArray(detail.synonyms) ? detail.synonyms : []).filter((name) => typeof name === 'string' && name.length > 0))];
+
+    const properties = new Map<string, PropertyRecord>();
+    const addProperties = (list: CasProperty[] | undefined, type: PropertyType) => {
+        for (const p of Array.isArray(list) ? list : []) {
+            properties.set(propertyKey({ ...p, type }), { name: p.name, property: p.property, units: p.units, type });
+        }
+    };
+    addProperties(detail.experimentalProperties, 'experimental');
+    addProperties(detail.predictedProperties, 'predicted');
+
+    const citations = new Map<string, CasCitation>();
+    for (const c of Array.isArray(detail.citations) ? detail.citations : []) {
+        citations.set(citationKey(c), { source: c.source, url: c.url });
+    }
+
+    return { substance, synonyms, properties: [...properties.values()], citations: [...citations.values()] };
+}
+
+// 같은 물질 안에서 Properties/Citations 행을 구별하는 키 (같은 항목에 값이 여러 개일 수 있어 값까지 포함합니다.)
+export function propertyKey(p: { name: string; property: string; type: string }): string {
+    return `${p.type}|${p.name}|${p.property}`;
+}
+
+export function citationKey(c: { source: string | null; url: string | null }): string {
+    return `${c.source ?? ''}|${c.url ?? ''}`;
+}
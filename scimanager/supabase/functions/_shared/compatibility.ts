@@ -0,0 +1,184 @@
+// _shared/compatibility.ts
+// 시약장 보관 시 함께 두면 안 되는 물질(혼합 금지)을 판정하는 규칙 엔진입니다.
+
+import { HttpError } from './errors.ts';
+import { chunk, fetchAllRows, supabase } from './supabaseClient.ts';
+
+export type HazardClass = 'acid' | 'base' | 'oxidizer' | 'flammable' | 'reducer' | 'water_reactive' | 'toxic';
+
+export const HAZARD_CLASSES: HazardClass[] = ['acid', 'base', 'oxidizer', 'flammable', 'reducer', 'water_reactive', 'toxic'];
+
+// 라벨/화면에 표시하는 이름
+export const HAZARD_CLASS_LABELS: Record<HazardClass, string> = {
+    acid: '산',
+    base: '염기',
+    oxidizer: '산화제',
+    flammable: '인화성',
+    reducer: '환원제',
+    water_reactive: '금수성',
+    toxic: '독성',
+};
+
+// 같은 선반(shelf) 또는 같은 시약장(cabinet) 안에서의 규칙
+export type CompatibilityScope = 'shelf' | 'cabinet';
+export type CompatibilitySeverity = 'reject' | 'warn';
+
+interface CompatibilityRule {
+    classes: [HazardClass, HazardClass];
+    scope: CompatibilityScope;
+    severity: CompatibilitySeverity;
+    reason: string;
+}
+
+// 규칙은 위에서부터 확인하며, 같은 쌍에는 가장 먼저 맞는 규칙 하나만 적용합니다.
+const COMPATIBILITY_RULES: CompatibilityRule[] = [
+    { classes: ['oxidizer', 'flammable'], scope: 'cabinet', severity: 'reject', reason: '산화제와 인화성 물질은 같은 시약장에 보관할 수 없습니다.' },
+    { classes: ['oxidizer', 'reducer'], scope: 'cabinet', severity: 'reject', reason: '산화제와 환원제는 같은 시약장에 보관할 수 없습니다.' },
+    { classes: ['acid', 'base'], scope: 'shelf', severity: 'reject', reason: '산과 염기는 같은 선반에 보관할 수 없습니다.' },
+    { classes: ['acid', 'base'], scope: 'cabinet', severity: 'warn', reason: '산과 염기는 가능하면 다른 시약장에 보관하세요.' },
+    { classes: ['water_reactive', 'acid'], scope: 'shelf', severity: 'reject', reason: '물 반응성 물질은 산(수용액)과 같은 선반에 보관할 수 없습니다.' },
+    { classes: ['water_reactive', 'base'], scope: 'shelf', severity: 'warn', reason: '물 반응성 물질은 염기(수용액)와 떨어뜨려 보관하세요.' },
+    { classes: ['water_reactive', 'flammable'], scope: 'shelf', severity: 'warn', reason: '물 반응성 물질과 인화성 물질은 떨어뜨려 보관하세요.' },
+    { classes: ['toxic', 'acid'], scope: 'shelf', severity: 'warn', reason: '독성 물질은 산과 떨어뜨려 보관하세요. (유독 가스 발생 위험)' },
+];
+
+// Inventory.classification 값(한글/영문) → 위험 분류
+const CLASSIFICATION_ALIASES: Record<string, HazardClass[]> = {
+    '산': ['acid'], 'acid': ['acid'], 'acids': ['acid'],
+    '산화성산': ['acid', 'oxidizer'], 'oxidizingacid': ['acid', 'oxidizer'],
+    '염기': ['base'], 'base': ['base'], 'bases': ['base'], '알칼리': ['base'], 'alkali': ['base'],
+    '산화제': ['oxidizer'], '산화성': ['oxidizer'], 'oxidizer': ['oxidizer'], 'oxidizers': ['oxidizer'],
+    '인화성': ['flammable'], '인화성물질': ['flammable'], '유기용매': ['flammable'], 'flammable': ['flammable'], 'flammables': ['flammable'],
+    '환원제': ['reducer'], 'reducer': ['reducer'], 'reducingagent': ['reducer'],
+    '금수성': ['water_reactive'], '물반응성': ['water_reactive'], 'waterreactive': ['water_reactive'], 'water_reactive': ['water_reactive'],
+    '독성': ['toxic'], '유독물': ['toxic'], '유독물질': ['toxic'], 'toxic': ['toxic'],
+};
+
+export interface StoredPlacement {
+    inventoryId: number | null;
+    label: string;
+    cabinetId: number;
+    doorVertical: number | null;
+    doorHorizontal: number | null;
+    shelfLevel: number | null;
+    hazardClasses: HazardClass[];
+}
+
+export interface CompatibilityViolation {
+    inventoryId: number | null;
+    label: string;
+    neighborInventoryId: number | null;
+    neighborLabel: string;
+    cabinetId: number;
+    scope: CompatibilityScope;
+    severity: CompatibilitySeverity;
+    classes: [HazardClass, HazardClass];
+    reason: string;
+}
+
+export function parseHazardClasses(raw: unknown): HazardClass[] {
+    if (raw == null) return [];
+    if (!Array.isArray(raw)) throw new HttpError(400, 'hazard_classes는 배열이어야 합니다.');
+    const invalid = raw.filter((value) => !HAZARD_CLASSES.includes(value));
+    if (invalid.length > 0) {
+        throw new HttpError(400, `알 수 없는 위험 분류입니다: ${invalid.join(', ')} (사용 가능: ${HAZARD_CLASSES.join(', ')})`);
+    }
+    return [...new Set(raw as HazardClass[])];
+}
+
+// 병의 분류(classification)와 물질의 위험 분류(Substance.hazard_classes)를 합칩니다.
+export function resolveHazardClasses(classification: string | null | undefined, substanceHazardClasses: string[] | null | undefined): HazardClass[] {
+    const classes = new Set<HazardClass>();
+    for (const value of substanceHazardClasses ?? []) {
+        if (HAZARD_CLASSES.includes(value as HazardClass)) classes.add(value as HazardClass);
+    }
+    if (classification) {
+        // "산, 독성" 처럼 여러 분류를 쉼표나 슬래시로 적은 경우도 처리합니다.
+        for (const token of classification.split(/[,/·]/)) {
+            const key = token.trim().replace(/[\s-]+/g, '').toLowerCase();
+            for (const value of CLASSIFICATION_ALIASES[key] ?? []) classes.add(value);
+        }
+    }
+    return [...classes];
+}
+
+function isSameShelf(a: StoredPlacement, b: StoredPlacement): boolean {
+    return a.cabinetId === b.cabinetId
+        && a.doorVertical === b.doorVertical
+        && a.doorHorizontal === b.doorHorizontal
+        && a.shelfLevel === b.shelfLevel;
+}
+
+function findRule(aClasses: HazardClass[], bClasses: HazardClass[], sameShelf: boolean): { rule: CompatibilityRule; classes: [HazardClass, HazardClass] } | null {
+    for (const rule of COMPATIBILITY_RULES) {
+        if (rule.scope === 'shelf' && !sameShelf) continue;
+        const [x, y] = rule.classes;
+        if (aClasses.includes(x) && bClasses.includes(y)) return { rule, classes: [x, y] };
+        if (aClasses.includes(y) && bClasses.includes(x)) return { rule, classes: [y, x] };
+    }
+    return null;
+}
+
+// 새로 놓을 병(candidate)과 같은 시약장의 다른 병들 사이의 위반 사항을 찾습니다.
+export function findViolations(candidate: StoredPlacement, neighbors: StoredPlacement[]): CompatibilityViolation[] {
+    const violations: CompatibilityViolation[] = [];
+    if (candidate.hazardClasses.length === 0) return violations;
+
+    for (const neighbor of neighbors) {
+        if (neighbor.cabinetId !== candidate.cabinetId) continue;
+        if (neighbor.inventoryId !== null && neighbor.inventoryId === candidate.inventoryId) continue;
+        const match = findRule(candidate.hazardClasses, neighbor.hazardClasses, isSameShelf(candidate, neighbor));
+        if (!match) continue;
+        violations.push({
+            inventoryId: candidate.inventoryId,
+            label: candidate.label,
+            neighborInventoryId: neighbor.inventoryId,
+            neighborLabel: neighbor.label,
+            cabinetId: candidate.cabinetId,
+            scope: match.rule.scope,
+            severity: match.rule.severity,
+            classes: match.classes,
+            reason: match.rule.reason,
+        });
+    }
+    return violations;
+}
+
+// 이미 보관 중인 병들 전체에서 위반 사항을 찾습니다. (각 쌍은 한 번만 보고)
+export function auditPlacements(placements: StoredPlacement[]): CompatibilityViolation[] {
+    const violations: CompatibilityViolation[] = [];
+    for (let i = 0; i < placements.length; i++) {
+        violations.push(...findViolations(placements[i], placements.slice(i + 1)));
+    }
+    return violations;
+}
+
+// 시약장에 보관 중인 병들의 위치와 위험 분류를 읽어옵니다.
+export async function fetchPlacements(cabinetIds: number[]): Promise<StoredPlacement[]> {
+    if (cabinetIds.length === 0) return [];
+
+    // 학교 전체 점검에서는 시약장이 많으므로 시약장 ID를 나누고, 병은 끝까지 읽습니다.
+    const data = [];
+    for (const ids of chunk(cabinetIds)) {
+        data.push(...await fetchAllRows('Inventory', (from, to) => supabase
+            .from('Inventory')
+            .select('id, bottle_identifier, cabinet_id, door_vertical, door_horizontal, internal_shelf_level, classification, Substance(name, cas_rn, hazard_classes)')
+            .in('cabinet_id', ids)
+            .is('disposed_at', null)
+            .order('id')
+            .range(from, to)));
+    }
+
+    return data.map((row) => {
+        const substance = Array.isArray(row.Substance) ? row.Substance[0] : row.Substance;
+        return {
+            inventoryId: row.id,
+            label: `${substance?.name || substance?.cas_rn || '알 수 없음'} (${row.bottle_identifier})`,
+            cabinetId: row.cabinet_id,
+            doorVertical: row.door_vertical,
+            doorHorizontal: row.door_horizontal,
+            shelfLevel: row.internal_shelf_level,
+            hazardClasses: resolveHazardClasses(row.classification, substance?.hazard_classes),
+        };
+    });
+}
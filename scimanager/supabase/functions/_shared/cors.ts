@@ -0,0 +1,15 @@
+// _shared/cors.ts
+
+export const ALLOWED_ORIGIN = 'https://pogoksci.github.io';
+
+export function createCorsHeaders(methods: string) {
+    return {
+        'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, idempotency-key',
+        'Access-Control-Allow-Methods': methods,
+    };
+}
+
+export function jsonResponse(corsHeaders: Record<string, string>, body: unknown, status: number = 200) {
+    return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
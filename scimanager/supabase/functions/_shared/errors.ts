@@ -0,0 +1,16 @@
+// _shared/errors.ts
+
+// 상태 코드를 함께 전달하는 오류 (잘못된 입력은 400으로 응답)
+export class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+export function getErrorMessage(e: unknown): string {
+    return e instanceof Error ? e.message : String(e);
+}
+
+export function getErrorStatus(e: unknown): number {
+    return e instanceof HttpError ? e.status : 500;
+}
@@ -0,0 +1,287 @@
+// _shared/images.ts
+// 시약/시약장 사진 처리: 업로드 검증 → 방향 보정 → 320/160 축소본 생성(EXIF 제거) → Storage 교체/삭제
+
+import { decode } from 'std/encoding/base64.ts';
+import { Image } from 'imagescript';
+import decodeWebp from '@jsquash/webp/decode.js';
+import { HttpError } from './errors.ts';
+import { supabase } from './supabaseClient.ts';
+
+export const REAGENT_PHOTO_BUCKET = 'reagent-photos';
+export const CABINET_PHOTO_BUCKET = 'cabinet-photos';
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export const ACCEPTED_IMAGE_TYPES: ImageMimeType[] = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+// 압축률이 높은 작은 파일도 풀면 가로x세로x4바이트가 되므로 해상도도 제한합니다. (40MP ≈ 160MB)
+export const MAX_IMAGE_PIXELS = 40_000_000;
+
+// 긴 변 기준 크기 (원본이 더 작으면 키우지 않습니다.)
+export const PHOTO_SIZES = [320, 160] as const;
+export type PhotoSize = typeof PHOTO_SIZES[number];
+
+export interface PhotoUrls {
+    photo_url_320: string | null;
+    photo_url_160: string | null;
+}
+
+export interface StoredPhotos {
+    urls: PhotoUrls;
+    paths: string[];
+}
+
+// ------------------------------------------------------------------
+// 업로드 검증
+// ------------------------------------------------------------------
+
+// 파일 앞부분(magic bytes)으로 실제 형식을 판별합니다.
+function sniffImageType(bytes: Uint8Array): ImageMimeType | null {
+    if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+    if (bytes.length >= 8 && [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((b, i) => bytes[i] === b)) return 'image/png';
+    if (
+        bytes.length >= 12 &&
+        String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+        String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP'
+    ) return 'image/webp';
+    return null;
+}
+
+// data URL(`data:image/jpeg;base64,...`)을 검증하고 바이트로 바꿉니다.
+// 선언된 MIME 형식과 실제 파일 형식이 모두 허용 목록에 있고 서로 일치해야 합니다.
+export function parseImageDataUrl(dataUrl: unknown, fieldName = 'photo_base64'): { bytes: Uint8Array; mimeType: ImageMimeType } {
+    if (typeof dataUrl !== 'string') throw new HttpError(400, `${fieldName} 값은 data URL 문자열이어야 합니다.`);
+
+    const match = dataUrl.match(/^data:([\w.+-]+\/[\w.+-]+);base64,(.*)$/s);
+    if (!match) throw new HttpError(400, `${fieldName} 값이 올바른 data URL 형식(data:<MIME>;base64,...)이 아닙니다.`);
+
+    const declaredType = match[1].toLowerCase();
+    if (!ACCEPTED_IMAGE_TYPES.includes(declaredType as ImageMimeType)) {
+        throw new HttpError(415, `지원하지 않는 사진 형식입니다: '${declaredType}' (사용 가능: ${ACCEPTED_IMAGE_TYPES.join(', ')})`);
+    }
+
+    // base64 길이로 먼저 대략적인 크기를 확인해 큰 파일을 디코딩하지 않도록 합니다.
+    const base64 = match[2].replace(/\s/g, '');
+    if (Math.floor(base64.length * 3 / 4) > MAX_IMAGE_BYTES + 2) {
+        throw new HttpError(413, `사진 크기가 너무 큽니다. (최대 ${MAX_IMAGE_BYTES / 1024 / 1024}MB)`);
+    }
+
+    let bytes: Uint8Array;
+    try {
+        bytes = decode(base64);
+    } catch {
+        throw new HttpError(400, `${fieldName} 값의 base64 인코딩이 올바르지 않습니다.`);
+    }
+    if (bytes.length === 0) throw new HttpError(400, `${fieldName} 사진이 비어 있습니다.`);
+    if (bytes.length > MAX_IMAGE_BYTES) throw new HttpError(413, `사진 크기가 너무 큽니다. (최대 ${MAX_IMAGE_BYTES / 1024 / 1024}MB)`);
+
+    const actualType = sniffImageType(bytes);
+    if (actualType !== declaredType) {
+        throw new HttpError(415, `사진 내용이 선언된 형식(${declaredType})과 다릅니다. (실제: ${actualType ?? '알 수 없음'})`);
+    }
+    return { bytes, mimeType: actualType };
+}
+
+// ------------------------------------------------------------------
+// 축소본 생성
+// ------------------------------------------------------------------
+
+// JPEG의 EXIF Orientation 값(1~8)을 읽습니다. 없거나 읽을 수 없으면 1(보정 없음)입니다.
+function readJpegOrientation(bytes: Uint8Array): number {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // 이미지 데이터(SOS) 전까지만 찾습니다.
+
+        const exifStart = offset + 4;
+        if (marker === 0xffe1 && exifStart + 14 <= view.byteLength && view.getUint32(exifStart) === 0x45786966) { // 'Exif'
+            const tiff = exifStart + 6;
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            if (ifd + 2 > view.byteLength) return 1;
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 12 > view.byteLength) return 1;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    const orientation = view.getUint16(entry + 8, little);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + length;
+    }
+    return 1;
+}
+
+// EXIF를 지우면 휴대폰 사진이 옆으로 눕기 때문에, 먼저 픽셀을 Orientation대로 돌려 둡니다. (rotate는 시계 방향)
+function applyOrientation(image: Image, orientation: number) {
+    switch (orientation) {
+        case 2: image.flip('horizontal'); break;
+        case 3: image.rotate(180); break;
+        case 4: image.flip('vertical'); break;
+        case 5: image.rotate(90); image.flip('horizontal'); break;
+        case 6: image.rotate(90); break;
+        case 7: image.rotate(270); image.flip('horizontal'); break;
+        case 8: image.rotate(270); break;
+    }
+}
+
+// 디코딩하기 전에 파일 머리(JPEG SOF, PNG IHDR, WebP VP8/VP8L/VP8X)에서 가로/세로 크기를 읽습니다.
+function readImageDimensions(bytes: Uint8Array, mimeType: ImageMimeType): { width: number; height: number } | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+    if (mimeType === 'image/png') {
+        if (view.byteLength < 24 || tag(12) !== 'IHDR') return null;
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    if (mimeType === 'image/webp') {
+        if (view.byteLength < 30) return null;
+        switch (tag(12)) {
+            case 'VP8X': // 확장 형식: 캔버스 크기 - 1 (24비트)
+                return {
+                    width: 1 + (view.getUint16(24, true) | (view.getUint8(26) << 16)),
+                    height: 1 + (view.getUint16(27, true) | (view.getUint8(29) << 16)),
+                };
+            case 'VP8L': { // 무손실: 서명(0x2f) 다음 14비트씩 크기 - 1
+                if (view.getUint8(20) !== 0x2f) return null;
+                const bits = view.getUint32(21, true);
+                return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+            }
+            case 'VP8 ': // 손실: 시작 코드(9d 01 2a) 다음 14비트씩 크기
+                if (view.getUint8(23) !== 0x9d || view.getUint8(24) !== 0x01 || view.getUint8(25) !== 0x2a) return null;
+                return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        }
+        return null;
+    }
+
+    // JPEG: 이미지 데이터(SOS) 전에 나오는 SOF 마커에 크기가 있습니다. (DHT/JPG/DAC 마커는 제외)
+    let offset = 2;
+    while (offset + 9 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+        if (marker >= 0xffc0 && marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(marker)) {
+            return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+}
+
+async function decodeImage(bytes: Uint8Array, mimeType: ImageMimeType): Promise<Image> {
+    const dimensions = readImageDimensions(bytes, mimeType);
+    if (!dimensions || dimensions.width === 0 || dimensions.height === 0) throw new HttpError(400, '사진 크기(가로/세로)를 읽을 수 없습니다.');
+    if (dimensions.width * dimensions.height > MAX_IMAGE_PIXELS) {
+        throw new HttpError(413, `사진 해상도가 너무 큽니다: ${dimensions.width}x${dimensions.height} (최대 ${MAX_IMAGE_PIXELS / 1_000_000}MP)`);
+    }
+
+    try {
+        if (mimeType === 'image/webp') {
+            const decoded = await decodeWebp(bytes.slice().buffer);
+            const image = new Image(decoded.width, decoded.height);
+            image.bitmap.set(decoded.data);
+            return image;
+        }
+        const image = await Image.decode(bytes);
+        if (mimeType === 'image/jpeg') applyOrientation(image, readJpegOrientation(bytes));
+        return image;
+    } catch (e) {
+        throw new HttpError(400, `사진을 읽을 수 없습니다: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+// 320/160 PNG 축소본을 만듭니다. 픽셀만 다시 인코딩하므로 EXIF(위치 정보 등) 메타데이터는 남지 않습니다.
+export async function createPhotoVariants(bytes: Uint8Array, mimeType: ImageMimeType): Promise<Map<PhotoSize, Uint8Array>> {
+    const source = await decodeImage(bytes, mimeType);
+    const variants = new Map<PhotoSize, Uint8Array>();
+    for (const size of PHOTO_SIZES) {
+        const image = source.clone();
+        if (Math.max(image.width, image.height) > size) {
+            if (image.width >= image.height) image.resize(size, Image.RESIZE_AUTO);
+            else image.resize(Image.RESIZE_AUTO, size);
+        }
+        variants.set(size, await image.encode());
+    }
+    return variants;
+}
+
+// ------------------------------------------------------------------
+// Storage 저장/삭제
+// ------------------------------------------------------------------
+
+export function photoPaths(baseName: string): string[] {
+    return PHOTO_SIZES.map((size) => `${baseName}_${size}.png`);
+}
+
+// 공개 URL에서 버킷 안의 경로를 꺼냅니다. (이전 규칙으로 저장된 사진도 지울 수 있도록)
+export function storagePathFromUrl(bucket: string, url: string | null | undefined): string | null {
+    if (!url) return null;
+    const marker = `/object/public/${bucket}/`;
+    const index = url.indexOf(marker);
+    if (index < 0) return null;
+    return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+}
+
+export async function removePhotos(bucket: string, paths: (string | null)[]) {
+    const targets = [...new Set(paths.filter((path): path is string => !!path))];
+    if (targets.length === 0) return;
+    const { error } = await supabase.storage.from(bucket).remove(targets);
+    if (error) console.error(`${bucket} 사진 삭제 오류 (${targets.join(', ')}):`, error.message);
+}
+
+// 사진 한 장을 검증하고 축소본을 만듭니다. DB에 행을 만들기 전에 불러 잘못된 사진을 먼저 거를 수 있습니다.
+export async function preparePhotoVariants(dataUrl: unknown, fieldName = 'photo_base64'): Promise<Map<PhotoSize, Uint8Array>> {
+    const { bytes, mimeType } = parseImageDataUrl(dataUrl, fieldName);
+    return await createPhotoVariants(bytes, mimeType);
+}
+
+// 축소본을 `${baseName}_320.png`, `${baseName}_160.png`로 저장합니다.
+// 같은 경로는 덮어쓰고, URL에 버전을 붙여 브라우저/CDN 캐시에 이전 사진이 남지 않게 합니다.
+// 일부만 올라간 경우 올린 파일을 지우고 오류를 던집니다.
+export async function uploadPhotoVariants(bucket: string, baseName: string, variants: Map<PhotoSize, Uint8Array>): Promise<StoredPhotos> {
+    const uploads = PHOTO_SIZES.map((size) => ({ size, path: `${baseName}_${size}.png`, data: variants.get(size)! }));
+    const results = await Promise.all(uploads.map((upload) =>
+        supabase.storage.from(bucket).upload(upload.path, upload.data, { contentType: 'image/png', upsert: true })
+    ));
+    const paths = results.filter((result) => result.data).map((result) => result.data!.path);
+    const failed = results.find((result) => result.error);
+    if (failed) {
+        await removePhotos(bucket, paths);
+        throw new Error(`Storage 업로드 오류: ${failed.error!.message}`);
+    }
+
+    const version = Date.now();
+    const urlFor = (path: string) => `${supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl}?v=${version}`;
+    return {
+        urls: { photo_url_320: urlFor(uploads[0].path), photo_url_160: urlFor(uploads[1].path) },
+        paths,
+    };
+}
+
+
+// 새 사진을 저장한 뒤, 경로가 달라진 이전 사진(예: 예전 파일명 규칙)을 지웁니다.
+export async function replacePhotos(bucket: string, baseName: string, variants: Map<PhotoSize, Uint8Array>, previous: Partial<PhotoUrls>): Promise<StoredPhotos> {
+    const stored = await uploadPhotoVariants(bucket, baseName, variants);
+    const stale = [previous.photo_url_320, previous.photo_url_160]
+        .map((url) => storagePathFromUrl(bucket, url))
+        .filter((path) => path && !stored.paths.includes(path));
+    await removePhotos(bucket, stale);
+    return stored;
+}
+
+// 행에 저장된 사진 URL이 가리키는 파일을 지웁니다.
+export async function removeStoredPhotos(bucket: string, row: Partial<PhotoUrls>) {
+    await removePhotos(bucket, [storagePathFromUrl(bucket, row.photo_url_320), storagePathFromUrl(bucket, row.photo_url_160)]);
+}
+
+// 요청 본문에서 원본 사진을 고릅니다. photo_base64(원본 한 장)를 우선하고,
+// 예전 클라이언트가 보내는 photo_320_base64도 원본으로 받아 서버에서 다시 축소합니다. (photo_160_base64는 무시)
+// undefined: 사진 변경 없음, null: 사진 삭제
+export function pickPhotoSource(body: { photo_base64?: unknown; photo_320_base64?: unknown }): unknown {
+    return body.photo_base64 !== undefined ? body.photo_base64 : body.photo_320_base64;
+}
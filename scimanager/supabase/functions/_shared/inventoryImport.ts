@@ -0,0 +1,394 @@
+// _shared/inventoryImport.ts
+// 엑셀/CSV 재고 목록 가져오기: 파일 해석 → 열 매핑 → 행 검증 → 약품실/시약장 이름 해석
+
+// SheetJS는 npm 레지스트리의 xlsx(0.18.5)에 보안 수정이 올라오지 않아 공식 CDN 빌드를 씁니다. (deno.json)
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from 'xlsx';
+import { normalizeCasRn } from './casClient.ts';
+import { DEFAULT_CABINET_DIMENSIONS, fetchCabinetBottles } from './cabinets.ts';
+import { CabinetGeometry, isSlotInside, slotKey, SlotCoordinates, validateSlot } from './cabinetSlots.ts';
+import { parseHazardClasses } from './compatibility.ts';
+import { getErrorMessage, HttpError } from './errors.ts';
+import { supabase } from './supabaseClient.ts';
+import { requireAmountUnit, requireConcentrationUnit } from './units.ts';
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportFormat = 'csv' | 'xlsx';
+
+export type ImportField =
+    | 'cas_rn' | 'area_name' | 'cabinet_name'
+    | 'door_vertical' | 'door_horizontal' | 'internal_shelf_level' | 'storage_column'
+    | 'purchase_volume' | 'unit' | 'current_amount'
+    | 'classification' | 'state' | 'concentration_value' | 'concentration_unit'
+    | 'manufacturer' | 'purchase_date' | 'hazard_classes';
+
+// 머리글 이름 → 필드 (대소문자, 공백, '_' 차이는 무시합니다.)
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    cas_rn: ['cas_rn', 'cas', 'cas rn', 'cas no', 'cas number', 'cas 번호'],
+    area_name: ['area_name', 'area', '약품실', '장소', '보관 장소'],
+    cabinet_name: ['cabinet_name', 'cabinet', '시약장', '시약장 이름'],
+    door_vertical: ['door_vertical', '문 세로', '문 세로 위치'],
+    door_horizontal: ['door_horizontal', '문 가로', '문 가로 위치'],
+    internal_shelf_level: ['internal_shelf_level', 'shelf', '선반', '선반 층', '층'],
+    storage_column: ['storage_column', 'storage_columns', 'column', '열', '보관 열'],
+    purchase_volume: ['purchase_volume', 'purchase amount', '구입량', '용량'],
+    unit: ['unit', '단위'],
+    current_amount: ['current_amount', 'remaining', '잔량', '현재량'],
+    classification: ['classification', '분류'],
+    state: ['state', '상태'],
+    concentration_value: ['concentration_value', 'concentration', '농도'],
+    concentration_unit: ['concentration_unit', '농도 단위'],
+    manufacturer: ['manufacturer', '제조사'],
+    purchase_date: ['purchase_date', '구입일', '구입 일자'],
+    hazard_classes: ['hazard_classes', '위험 분류'],
+};
+
+const IMPORT_FIELDS = Object.keys(HEADER_ALIASES) as ImportField[];
+
+// casimport의 inventoryDetails와 같은 이름을 씁니다. (cabinet_id는 이름 해석 후 채웁니다.)
+export interface ImportedDetails {
+    purchase_volume?: number;
+    unit?: string;
+    current_amount?: number;
+    door_vertical?: number;
+    door_horizontal?: number;
+    internal_shelf_level?: number;
+    storage_columns?: number;
+    cabinet_id?: number;
+    classification?: string;
+    state?: string;
+    concentration_value?: number;
+    concentration_unit?: string;
+    manufacturer?: string;
+    purchase_date?: string;
+    hazard_classes?: string[];
+}
+
+export interface ImportRow {
+    // 파일에서의 행 번호 (머리글이 1행)
+    rowNumber: number;
+    casRn: string;
+    areaName: string | null;
+    cabinetName: string | null;
+    inventoryDetails: ImportedDetails;
+    // 이름으로 찾지 못해 새로 만들 시약장이면 true
+    createsCabinet: boolean;
+    errors: string[];
+}
+
+export interface PlannedCabinet {
+    areaName: string;
+    cabinetName: string;
+    // 실제로 만든 뒤에 채워집니다. (미리 보기에서는 null)
+    cabinetId: number | null;
+    areaId: number | null;
+    dimensions: typeof DEFAULT_CABINET_DIMENSIONS;
+}
+
+export interface ImportPlan {
+    rows: ImportRow[];
+    mappedColumns: Record<string, ImportField>;
+    ignoredColumns: string[];
+    cabinetsToCreate: PlannedCabinet[];
+}
+
+// ------------------------------------------------------------------
+// 파일 해석
+// ------------------------------------------------------------------
+
+function normalizeHeader(header: string): string {
+    return header.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+}
+
+// 엑셀에서 저장한 한글 CSV는 EUC-KR(CP949)인 경우가 많아, UTF-8로 읽을 수 없으면 EUC-KR로 다시 읽습니다.
+function decodeCsvText(bytes: Uint8Array): string {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes).replace(/^\uFEFF/, '');
+    } catch {
+        return new TextDecoder('euc-kr').decode(bytes);
+    }
+}
+
+export function detectImportFormat(fileName: string | null, bytes: Uint8Array): ImportFormat {
+    // XLSX는 ZIP 파일이라 'PK'로 시작합니다.
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'xlsx';
+    if (fileName && /\.xlsx?$/i.test(fileName)) {
+        throw new HttpError(415, `엑셀 파일을 읽을 수 없습니다: '${fileName}' (.xlsx 형식으로 저장해 주세요.)`);
+    }
+    return 'csv';
+}
+
+// 첫 번째 시트(또는 지정한 시트)를 머리글 + 행 배열로 읽습니다.
+function readSheet(bytes: Uint8Array, format: ImportFormat, sheetName: string | null): unknown[][] {
+    let workbook: XLSX.WorkBook;
+    try {
+        // CSV는 "64-17-5" 같은 CAS RN이 날짜로 바뀌지 않도록 문자열 그대로 읽습니다.
+        workbook = format === 'csv'
+            ? XLSX.read(decodeCsvText(bytes), { type: 'string', raw: true })
+            : XLSX.read(bytes, { type: 'array', cellDates: true });
+    } catch (e) {
+        throw new HttpError(400, `파일을 읽을 수 없습니다: ${getErrorMessage(e)}`);
+    }
+
+    const name = sheetName ?? workbook.SheetNames[0];
+    const sheet = name ? workbook.Sheets[name] : undefined;
+    if (!sheet) throw new HttpError(400, `시트를 찾을 수 없습니다: '${sheetName ?? ''}' (시트 목록: ${workbook.SheetNames.join(', ')})`);
+    return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: null, raw: true, blankrows: true });
+}
+
+// 머리글과 매핑 설정으로 열 번호 → 필드를 정합니다. columnMap은 { "파일 머리글": "필드" } 형식입니다.
+function resolveColumns(headers: string[], columnMap: Record<string, string>) {
+    const overrides = new Map(Object.entries(columnMap).map(([header, field]) => [normalizeHeader(header), field]));
+    for (const [header, field] of overrides) {
+        if (!IMPORT_FIELDS.includes(field as ImportField)) {
+            throw new HttpError(400, `column_map의 '${header}' 열에 알 수 없는 필드가 지정되었습니다: '${field}' (사용 가능: ${IMPORT_FIELDS.join(', ')})`);
+        }
+    }
+
+    const columns = new Map<number, ImportField>();
+    const mappedColumns: Record<string, ImportField> = {};
+    const ignoredColumns: string[] = [];
+    headers.forEach((header, index) => {
+        const normalized = normalizeHeader(header);
+        const field = (overrides.get(normalized) as ImportField | undefined) ??
+            IMPORT_FIELDS.find((candidate) => HEADER_ALIASES[candidate].includes(normalized));
+        if (!field || [...columns.values()].includes(field)) {
+            if (header.trim()) ignoredColumns.push(header);
+            return;
+        }
+        columns.set(index, field);
+        mappedColumns[header] = field;
+    });
+
+    if (![...columns.values()].includes('cas_rn')) {
+        throw new HttpError(400, `CAS RN 열을 찾을 수 없습니다. (머리글: ${headers.join(', ')}) column_map으로 지정해 주세요.`);
+    }
+    return { columns, mappedColumns, ignoredColumns };
+}
+
+// ------------------------------------------------------------------
+// 행 검증
+// ------------------------------------------------------------------
+
+function cellText(value: unknown): string | null {
+    if (value == null) return null;
+    const text = value instanceof Date ? value.toISOString() : String(value).trim();
+    return text.length > 0 ? text : null;
+}
+
+function toDateString(value: unknown): string {
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value === 'number') {
+        // 엑셀 날짜 일련번호
+        const parsed = XLSX.SSF.parse_date_code(value);
+        if (parsed) return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+    }
+    const match = String(value).trim().match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})\.?$/);
+    if (!match) throw new Error(`구입일 '${value}'을(를) 날짜로 읽을 수 없습니다. (예: 2024-03-15)`);
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+function readRow(rowNumber: number, values: Map<ImportField, unknown>): ImportRow {
+    const errors: string[] = [];
+    const text = (field: ImportField) => cellText(values.get(field));
+    const check = <T>(fn: () => T): T | undefined => {
+        try {
+            return fn();
+        } catch (e) {
+            errors.push(getErrorMessage(e));
+            return undefined;
+        }
+    };
+    const number = (field: ImportField, label: string, integer: boolean): number | undefined => {
+        const raw = text(field);
+        if (raw === null) return undefined;
+        const value = Number(raw.replace(/,/g, ''));
+        if (!Number.isFinite(value) || value < 0 || (integer && (!Number.isInteger(value) || value < 1))) {
+            errors.push(`${label}(${field}) 값 '${raw}'이(가) 올바르지 않습니다.`);
+            return undefined;
+        }
+        return value;
+    };
+
+    const rawCasRn = text('cas_rn');
+    const casRn = rawCasRn === null ? (errors.push('CAS RN이 비어 있습니다.'), '') : check(() => normalizeCasRn(rawCasRn)) ?? rawCasRn;
+
+    const details: ImportedDetails = {
+        door_vertical: number('door_vertical', '문 세로 위치', true),
+        door_horizontal: number('door_horizontal', '문 가로 위치', true),
+        internal_shelf_level: number('internal_shelf_level', '선반 층', true),
+        storage_columns: number('storage_column', '보관 열', true),
+        purchase_volume: number('purchase_volume', '구입량', false),
+        current_amount: number('current_amount', '잔량', false),
+        concentration_value: number('concentration_value', '농도', false),
+        classification: text('classification') ?? undefined,
+        state: text('state') ?? undefined,
+        manufacturer: text('manufacturer') ?? undefined,
+    };
+    details.current_amount ??= details.purchase_volume;
+
+    const unit = text('unit');
+    details.unit = check(() => requireAmountUnit(unit).symbol);
+    const concentrationUnit = text('concentration_unit');
+    if (details.concentration_value !== undefined || concentrationUnit !== null) {
+        details.concentration_unit = check(() => requireConcentrationUnit(concentrationUnit));
+    }
+
+    const purchaseDate = values.get('purchase_date');
+    if (cellText(purchaseDate) !== null) details.purchase_date = check(() => toDateString(purchaseDate));
+
+    const hazardClasses = text('hazard_classes');
+    if (hazardClasses !== null) {
+        details.hazard_classes = check(() => parseHazardClasses(hazardClasses.split(/[,;/]/).map((value) => value.trim()).filter(Boolean)));
+    }
+
+    return {
+        rowNumber,
+        casRn,
+        areaName: text('area_name'),
+        cabinetName: text('cabinet_name'),
+        inventoryDetails: details,
+        createsCabinet: false,
+        errors,
+    };
+}
+
+// ------------------------------------------------------------------
+// 약품실/시약장 이름 해석과 칸 검증
+// ------------------------------------------------------------------
+
+export function importCabinetKey(areaName: string, cabinetName: string): string {
+    return `${areaName}\u0000${cabinetName}`;
+}
+
+async function resolveLocations(rows: ImportRow[], createMissingCabinets: boolean, ownInventoryIds: Set<number>): Promise<PlannedCabinet[]> {
+    const [{ data: areas, error: areaError }, { data: cabinets, error: cabinetError }] = await Promise.all([
+        supabase.from('Area').select('id, name'),
+        supabase.from('Cabinet').select('id, area_id, name, door_vertical_count, door_horizontal_count, shelf_height, storage_columns').is('archived_at', null),
+    ]);
+    if (areaError) throw new Error(`Area 조회 오류: ${areaError.message}`);
+    if (cabinetError) throw new Error(`Cabinet 조회 오류: ${cabinetError.message}`);
+
+    const areaNames = new Map(areas.map((area) => [area.id, area.name as string]));
+    const areaIds = new Map(areas.map((area) => [area.name as string, area.id as number]));
+    const existing = new Map(cabinets.map((cabinet) => [importCabinetKey(areaNames.get(cabinet.area_id) ?? '', cabinet.name), cabinet]));
+    const planned = new Map<string, PlannedCabinet>();
+
+    for (const row of rows) {
+        if (row.cabinetName === null) {
+            if (row.areaName !== null) row.errors.push('약품실만 있고 시약장 이름이 없습니다.');
+            continue;
+        }
+
+        // 약품실 이름이 없으면 시약장 이름이 하나뿐일 때만 찾습니다.
+        let areaName = row.areaName;
+        if (areaName === null) {
+            const matches = cabinets.filter((cabinet) => cabinet.name === row.cabinetName);
+            if (matches.length !== 1) {
+                row.errors.push(matches.length === 0
+                    ? `시약장 '${row.cabinetName}'을(를) 찾을 수 없습니다. (새로 만들려면 약품실 이름도 필요합니다.)`
+                    : `'${row.cabinetName}' 이름의 시약장이 여러 약품실에 있습니다. 약품실 이름을 함께 적어 주세요.`);
+                continue;
+            }
+            areaName = areaNames.get(matches[0].area_id) ?? '';
+            row.areaName = areaName;
+        }
+
+        const key = importCabinetKey(areaName, row.cabinetName);
+        const cabinet = existing.get(key);
+        if (cabinet) {
+            row.inventoryDetails.cabinet_id = cabinet.id;
+            continue;
+        }
+        if (!createMissingCabinets) {
+            row.errors.push(`'${areaName}'에 '${row.cabinetName}' 시약장이 없습니다. (create_missing_cabinets로 새로 만들 수 있습니다.)`);
+            continue;
+        }
+
+        // 새 시약장은 파일에 적힌 가장 큰 칸 좌표가 들어가도록 크기를 정합니다.
+        let plan = planned.get(key);
+        if (!plan) {
+            plan = { areaName, cabinetName: row.cabinetName, cabinetId: null, areaId: areaIds.get(areaName) ?? null, dimensions: { ...DEFAULT_CABINET_DIMENSIONS } };
+            planned.set(key, plan);
+        }
+        const d = row.inventoryDetails;
+        plan.dimensions.door_vertical_count = Math.max(plan.dimensions.door_vertical_count, d.door_vertical ?? 1);
+        plan.dimensions.door_horizontal_count = Math.max(plan.dimensions.door_horizontal_count, d.door_horizontal ?? 1);
+        plan.dimensions.shelf_height = Math.max(plan.dimensions.shelf_height, d.internal_shelf_level ?? 1);
+        plan.dimensions.storage_columns = Math.max(plan.dimensions.storage_columns, d.storage_columns ?? 1);
+        row.createsCabinet = true;
+    }
+
+    // 칸 좌표를 시약장 크기와 비교하고, 이미 쓰는 칸이나 파일 안에서 겹치는 칸을 찾습니다.
+    // 같은 Idempotency-Key로 앞서 등록한 병은 이 파일의 행이므로 빈 칸으로 봅니다. (다시 보내면 등록 대신 처음 결과를 돌려줍니다.)
+    const occupied = new Map<string, string>();
+    const targetCabinetIds = [...new Set(rows.map((row) => row.inventoryDetails.cabinet_id).filter((id): id is number => id !== undefined))];
+    for (const cabinetId of targetCabinetIds) {
+        const cabinet = cabinets.find((c) => c.id === cabinetId)!;
+        for (const bottle of await fetchCabinetBottles(cabinetId)) {
+            if (!ownInventoryIds.has(bottle.id) && isSlotInside(cabinet, bottle)) occupied.set(`${cabinetId}:${slotKey(bottle as SlotCoordinates)}`, `기존 재고 ID ${bottle.id}`);
+        }
+    }
+
+    for (const row of rows) {
+        if (row.errors.length > 0 || row.cabinetName === null || row.areaName === null) continue;
+        const key = importCabinetKey(row.areaName, row.cabinetName);
+        const geometry: CabinetGeometry = row.createsCabinet
+            ? { id: 0, ...planned.get(key)!.dimensions }
+            : cabinets.find((c) => c.id === row.inventoryDetails.cabinet_id)!;
+        const d = row.inventoryDetails;
+        const slot = (() => {
+            try {
+                return validateSlot(geometry, { door_vertical: d.door_vertical, door_horizontal: d.door_horizontal, internal_shelf_level: d.internal_shelf_level, storage_column: d.storage_columns });
+            } catch (e) {
+                row.errors.push(getErrorMessage(e));
+                return null;
+            }
+        })();
+        if (!slot) continue;
+
+        const slotId = `${row.createsCabinet ? key : row.inventoryDetails.cabinet_id}:${slotKey(slot)}`;
+        const occupant = occupied.get(slotId);
+        if (occupant) {
+            row.errors.push(`이미 사용 중인 칸입니다: ${slotKey(slot)} (${occupant})`);
+            continue;
+        }
+        occupied.set(slotId, `${row.rowNumber}행`);
+    }
+
+    return [...planned.values()];
+}
+
+// 파일을 읽어 검증한 가져오기 계획을 만듭니다. DB에는 아무것도 쓰지 않습니다.
+// ownInventoryIds: 같은 가져오기 요청을 앞서 보냈을 때 이미 등록된 병 ID
+export async function planInventoryImport(
+    bytes: Uint8Array,
+    options: { fileName: string | null; sheetName: string | null; columnMap: Record<string, string>; createMissingCabinets: boolean },
+    ownInventoryIds: Set<number> = new Set(),
+): Promise<ImportPlan> {
+    if (bytes.length === 0) throw new HttpError(400, '가져올 파일이 비어 있습니다.');
+    if (bytes.length > MAX_IMPORT_BYTES) throw new HttpError(413, `파일이 너무 큽니다. (최대 ${MAX_IMPORT_BYTES / 1024 / 1024}MB)`);
+
+    const format = detectImportFormat(options.fileName, bytes);
+    const table = readSheet(bytes, format, options.sheetName);
+    const headerIndex = table.findIndex((cells) => cells.some((cell) => cellText(cell) !== null));
+    if (headerIndex < 0) throw new HttpError(400, '파일에 머리글 행이 없습니다.');
+
+    const headers = table[headerIndex].map((cell) => cellText(cell) ?? '');
+    const { columns, mappedColumns, ignoredColumns } = resolveColumns(headers, options.columnMap);
+
+    const rows: ImportRow[] = [];
+    table.slice(headerIndex + 1).forEach((cells, offset) => {
+        if (!cells.some((cell) => cellText(cell) !== null)) return; // 빈 행은 건너뜁니다.
+        const values = new Map<ImportField, unknown>();
+        for (const [index, field] of columns) values.set(field, cells[index]);
+        rows.push(readRow(headerIndex + offset + 2, values));
+    });
+    if (rows.length === 0) throw new HttpError(400, '가져올 행이 없습니다.');
+    if (rows.length > MAX_IMPORT_ROWS) throw new HttpError(413, `한 번에 ${MAX_IMPORT_ROWS}행까지만 가져올 수 있습니다. (현재 ${rows.length}행)`);
+
+    const cabinetsToCreate = await resolveLocations(rows, options.createMissingCabinets, ownInventoryIds);
+    return { rows, mappedColumns, ignoredColumns, cabinetsToCreate };
+}
@@ -0,0 +1,72 @@
+// _shared/mailer.ts
+// 알림 메일 발송 (SMTP)
+//
+// Supabase Auth의 SMTP([auth.email.smtp])와 같은 서버 정보를 함수 환경 변수로 넣어 사용합니다.
+//   SMTP_HOST, SMTP_PORT(기본 465), SMTP_USER, SMTP_PASS, SMTP_SENDER(보내는 사람)
+// 배포된 Supabase Edge Function에서는 25, 587 포트로 나가는 연결이 막혀 있으므로 465(처음부터 TLS)를 씁니다.
+// 로컬에서는 config.toml의 [inbucket] smtp_port(54325)로 보내면 Inbucket(http://localhost:54324)에서 확인할 수 있습니다.
+//   예: supabase/functions/.env 에 SMTP_HOST=host.docker.internal, SMTP_PORT=54325
+
+import nodemailer from 'nodemailer';
+import { HttpError } from './errors.ts';
+
+export interface MailMessage {
+    to: string[];
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface MailResult {
+    messageId: string;
+    accepted: string[];
+    rejected: string[];
+}
+
+const DEFAULT_SMTP_PORT = 465;
+const DEFAULT_SENDER = 'SciManager <no-reply@scimanager.local>';
+
+function createTransport() {
+    const host = Deno.env.get('SMTP_HOST');
+    if (!host) throw new HttpError(503, '메일 서버(SMTP_HOST)가 설정되지 않아 메일을 보낼 수 없습니다.');
+
+    const port = Number(Deno.env.get('SMTP_PORT') || DEFAULT_SMTP_PORT);
+    if (!Number.isInteger(port) || port <= 0) throw new HttpError(503, `SMTP_PORT 값이 올바르지 않습니다: '${Deno.env.get('SMTP_PORT')}'`);
+
+    const user = Deno.env.get('SMTP_USER');
+    return nodemailer.createTransport({
+        host,
+        port,
+        // 465는 처음부터 TLS, 그 외 포트는 서버가 지원하면 STARTTLS로 전환합니다.
+        secure: port === 465,
+        auth: user ? { user, pass: Deno.env.get('SMTP_PASS') || '' } : undefined,
+    });
+}
+
+function addressOf(address: string | { address: string }): string {
+    return typeof address === 'string' ? address : address.address;
+}
+
+export async function sendMail(message: MailMessage): Promise<MailResult> {
+    if (message.to.length === 0) throw new HttpError(400, '받는 사람이 없습니다.');
+
+    const transport = createTransport();
+    try {
+        const info = await transport.sendMail({
+            from: Deno.env.get('SMTP_SENDER') || DEFAULT_SENDER,
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+            html: message.html,
+        });
+        return {
+            messageId: info.messageId,
+            accepted: info.accepted.map(addressOf),
+            rejected: info.rejected.map(addressOf),
+        };
+    } catch (e) {
+        throw new HttpError(502, `메일 발송 오류: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+        transport.close();
+    }
+}
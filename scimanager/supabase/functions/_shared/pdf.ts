@@ -0,0 +1,53 @@
+// _shared/pdf.ts
+// PDF 보고서/라벨 공용: 한글 글꼴 불러오기와 글꼴에 맞춘 문자열 처리
+
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib';
+
+// 한글을 쓰려면 TTF/OTF 글꼴이 필요합니다. 글꼴 파일은 함수와 함께 배포합니다.
+// (config.toml 의 static_files. Pretendard 1.3.9, SIL OFL 1.1 - fonts/Pretendard-LICENSE.txt)
+const KOREAN_FONT_PATH = new URL('./fonts/Pretendard-Regular.ttf', import.meta.url);
+
+export interface DocumentFont {
+    font: PDFFont;
+    // false면 기본 글꼴(Helvetica)로 대체된 상태라 한글이 '?'로 표시됩니다.
+    supportsKorean: boolean;
+}
+
+// 같은 인스턴스에서는 글꼴 파일을 한 번만 읽습니다.
+let koreanFontBytes: Promise<Uint8Array | null> | null = null;
+
+async function readKoreanFont(): Promise<Uint8Array | null> {
+    try {
+        return await Deno.readFile(KOREAN_FONT_PATH);
+    } catch (e) {
+        // static_files 설정이 빠진 채 배포된 경우입니다.
+        console.error(`한글 글꼴 파일을 읽지 못해 기본 글꼴을 사용합니다 (${KOREAN_FONT_PATH}):`, e instanceof Error ? e.message : String(e));
+        return null;
+    }
+}
+
+// 문서에 한글 글꼴을 넣습니다. 글꼴 파일이 없으면 Helvetica로 대체합니다.
+export async function embedDocumentFont(doc: PDFDocument): Promise<DocumentFont> {
+    koreanFontBytes ??= readKoreanFont();
+    const bytes = await koreanFontBytes;
+    if (bytes) {
+        doc.registerFontkit(fontkit);
+        return { font: await doc.embedFont(bytes, { subset: true }), supportsKorean: true };
+    }
+    return { font: await doc.embedFont(StandardFonts.Helvetica), supportsKorean: false };
+}
+
+// 기본 글꼴(WinAnsi)로 그릴 수 없는 문자는 '?'로 바꿉니다.
+export function pdfText(text: unknown, documentFont: DocumentFont): string {
+    const value = text == null ? '' : String(text).replace(/[\r\n\t]+/g, ' ');
+    return documentFont.supportsKorean ? value : value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+// 주어진 폭을 넘으면 뒤를 잘라 '...'을 붙입니다.
+export function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+    let end = text.length;
+    while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > maxWidth) end--;
+    return `${text.slice(0, end)}...`;
+}
@@ -0,0 +1,40 @@
+// _shared/supabaseClient.ts
+
+import { createClient } from '@supabase/supabase-js';
+
+// 환경 변수에서 키 가져오기
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Supabase 클라이언트 초기화 (서비스 롤)
+export const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+    global: { headers: { 'Authorization': `Bearer ${SERVICE_ROLE_KEY}` } }
+});
+
+// PostgREST는 한 번에 max_rows행까지만 돌려주므로, 전체 목록이 필요하면 .range()로 나눠서 끝까지 읽습니다.
+// buildQuery는 호출할 때마다 새 쿼리를 만들어야 하고, 페이지가 밀리지 않도록 고유한 열(id 등)로 정렬해야 합니다.
+// (FETCH_PAGE_SIZE는 config.toml 의 max_rows보다 크면 안 됩니다.)
+const FETCH_PAGE_SIZE = 1000;
+
+export async function fetchAllRows<T>(
+    label: string,
+    buildQuery: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+        const { data, error } = await buildQuery(from, from + FETCH_PAGE_SIZE - 1);
+        if (error) throw new Error(`${label} 조회 오류: ${error.message}`);
+        rows.push(...(data ?? []));
+        if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+    }
+}
+
+// .in() 필터는 GET 주소에 값이 모두 들어가므로, 값이 많으면 주소 길이 제한에 걸리지 않게 나눠서 조회합니다.
+const IN_FILTER_CHUNK_SIZE = 100;
+
+export function chunk<T>(items: T[], size = IN_FILTER_CHUNK_SIZE): T[][] {
+    const chunks: T[][] = [];
+    for (let start = 0; start < items.length; start += size) chunks.push(items.slice(start, start + size));
+    return chunks;
+}
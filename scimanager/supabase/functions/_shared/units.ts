@@ -0,0 +1,183 @@
+// _shared/units.ts
+// 재고 양(질량/부피)과 농도 단위를 검증하고 서로 변환합니다.
+
+import { HttpError } from './errors.ts';
+import { chunk, fetchAllRows, supabase } from './supabaseClient.ts';
+
+export type AmountDimension = 'mass' | 'volume';
+
+export interface AmountUnit {
+    symbol: string;
+    dimension: AmountDimension;
+    // 기준 단위(질량: g, 부피: mL)로 바꿀 때 곱하는 값
+    factor: number;
+}
+
+export type ConcentrationUnit = 'M' | 'mM' | '%(w/v)' | '%(w/w)' | '%(v/v)' | '%';
+
+const AMOUNT_UNITS: Record<string, AmountUnit> = {
+    'mg': { symbol: 'mg', dimension: 'mass', factor: 0.001 },
+    'g': { symbol: 'g', dimension: 'mass', factor: 1 },
+    'kg': { symbol: 'kg', dimension: 'mass', factor: 1000 },
+    'µL': { symbol: 'µL', dimension: 'volume', factor: 0.001 },
+    'mL': { symbol: 'mL', dimension: 'volume', factor: 1 },
+    'L': { symbol: 'L', dimension: 'volume', factor: 1000 },
+};
+
+// 소문자로 바꾼 입력 → 표준 단위 기호
+const AMOUNT_UNIT_ALIASES: Record<string, string> = {
+    'mg': 'mg', '㎎': 'mg', 'milligram': 'mg', 'milligrams': 'mg',
+    'g': 'g', 'gram': 'g', 'grams': 'g', '그램': 'g',
+    'kg': 'kg', '㎏': 'kg', 'kilogram': 'kg', 'kilograms': 'kg', '킬로그램': 'kg',
+    'µl': 'µL', 'μl': 'µL', 'ul': 'µL', '㎕': 'µL',
+    'ml': 'mL', '㎖': 'mL', 'mℓ': 'mL', 'cc': 'mL', 'cm3': 'mL', 'milliliter': 'mL', 'millilitre': 'mL', '밀리리터': 'mL',
+    'l': 'L', 'ℓ': 'L', 'liter': 'L', 'litre': 'L', '리터': 'L',
+};
+
+const CONCENTRATION_UNIT_ALIASES: Record<string, ConcentrationUnit> = {
+    'm': 'M', 'mol/l': 'M', 'mol/dm3': 'M', 'molar': 'M',
+    'mm': 'mM', 'mmol/l': 'mM', 'millimolar': 'mM',
+    'w/v': '%(w/v)', '%w/v': '%(w/v)', 'w/v%': '%(w/v)', '%(w/v)': '%(w/v)',
+    'w/w': '%(w/w)', '%w/w': '%(w/w)', 'w/w%': '%(w/w)', '%(w/w)': '%(w/w)', 'wt%': '%(w/w)',
+    'v/v': '%(v/v)', '%v/v': '%(v/v)', 'v/v%': '%(v/v)', '%(v/v)': '%(v/v)', 'vol%': '%(v/v)',
+    '%': '%',
+};
+
+function toLookupKey(raw: string): string {
+    return raw.trim().replace(/\s+/g, '').toLowerCase();
+}
+
+export function normalizeAmountUnit(raw: string | null | undefined): AmountUnit | null {
+    if (typeof raw !== 'string' || raw.trim().length === 0) return null;
+    // "mL"과 "ML"처럼 대소문자만 다른 경우를 구분할 필요가 없으므로 소문자로 찾습니다.
+    const symbol = AMOUNT_UNIT_ALIASES[toLookupKey(raw)];
+    return symbol ? AMOUNT_UNITS[symbol] : null;
+}
+
+export function requireAmountUnit(raw: string | null | undefined): AmountUnit {
+    const unit = normalizeAmountUnit(raw);
+    if (!unit) {
+        throw new HttpError(400, `지원하지 않는 단위입니다: '${raw ?? ''}' (사용 가능: ${Object.keys(AMOUNT_UNITS).join(', ')})`);
+    }
+    return unit;
+}
+
+export function normalizeConcentrationUnit(raw: string | null | undefined): ConcentrationUnit | null {
+    if (typeof raw !== 'string' || raw.trim().length === 0) return null;
+    const key = toLookupKey(raw);
+    // 몰 농도는 대소문자로 M과 mM을 구분해야 하므로 원래 입력을 먼저 확인합니다.
+    const compact = raw.trim().replace(/\s+/g, '');
+    if (compact === 'M') return 'M';
+    if (compact === 'mM') return 'mM';
+    return CONCENTRATION_UNIT_ALIASES[key] ?? null;
+}
+
+export function requireConcentrationUnit(raw: string | null | undefined): ConcentrationUnit {
+    const unit = normalizeConcentrationUnit(raw);
+    if (!unit) {
+        throw new HttpError(400, `지원하지 않는 농도 단위입니다: '${raw ?? ''}' (사용 가능: M, mM, %, %(w/v), %(w/w), %(v/v))`);
+    }
+    return unit;
+}
+
+// 질량 ↔ 부피 변환에는 밀도(g/mL)가 필요합니다. 변환할 수 없으면 null을 반환합니다.
+export function convertAmount(value: number, from: AmountUnit, to: AmountUnit, densityGPerMl?: number | null): number | null {
+    const base = value * from.factor;
+    if (from.dimension === to.dimension) return base / to.factor;
+    if (!densityGPerMl || densityGPerMl <= 0) return null;
+    const converted = from.dimension === 'volume' ? base * densityGPerMl : base / densityGPerMl;
+    return converted / to.factor;
+}
+
+export interface SoluteInput {
+    amount: number;
+    unit: AmountUnit;
+    concentrationValue?: number | null;
+    concentrationUnit?: ConcentrationUnit | null;
+    molecularMass?: number | null;
+    densityGPerMl?: number | null;
+}
+
+// 병에 들어 있는 물질(용질)의 질량을 g 단위로 계산합니다. 계산할 수 없으면 null을 반환합니다.
+export function calculateSoluteMassG(input: SoluteInput): number | null {
+    const { amount, unit, concentrationValue, concentrationUnit, molecularMass, densityGPerMl } = input;
+    const grams = AMOUNT_UNITS['g'];
+    const milliliters = AMOUNT_UNITS['mL'];
+
+    // 농도 정보가 없으면 순수한 물질로 봅니다.
+    if (concentrationValue == null || !concentrationUnit) {
+        return convertAmount(amount, unit, grams, densityGPerMl);
+    }
+
+    // 용액의 밀도는 알 수 없으므로 용액의 질량 ↔ 부피 변환은 하지 않습니다.
+    const solutionMl = unit.dimension === 'volume' ? convertAmount(amount, unit, milliliters) : null;
+    const solutionG = unit.dimension === 'mass' ? convertAmount(amount, unit, grams) : null;
+
+    switch (concentrationUnit) {
+        case 'M':
+        case 'mM': {
+            if (solutionMl == null || !molecularMass) return null;
+            const molar = concentrationUnit === 'mM' ? concentrationValue / 1000 : concentrationValue;
+            return molar * (solutionMl / 1000) * molecularMass;
+        }
+        case '%(w/v)':
+            return solutionMl == null ? null : (concentrationValue / 100) * solutionMl;
+        case '%(w/w)':
+            return solutionG == null ? null : (concentrationValue / 100) * solutionG;
+        case '%(v/v)': {
+            if (solutionMl == null) return null;
+            return convertAmount((concentrationValue / 100) * solutionMl, milliliters, grams, densityGPerMl);
+        }
+        default:
+            // 단순 '%'는 w/w, w/v, v/v 중 무엇인지 알 수 없습니다.
+            return null;
+    }
+}
+
+interface PropertyRow {
+    name: string | null;
+    property: string | null;
+    units?: string | null;
+}
+
+// Properties 테이블의 밀도 값(예: "0.7893 g/cm<sup>3</sup> @ Temp: 20 °C")을 g/mL로 읽습니다.
+export function parseDensityGPerMl(properties: PropertyRow[]): number | null {
+    for (const row of properties) {
+        if (!row.name || !/density/i.test(row.name) || !row.property) continue;
+        const text = `${row.property} ${row.units ?? ''}`.replace(/<.+?>/g, '');
+        const match = text.match(/-?\d+(?:\.\d+)?/);
+        if (!match) continue;
+        const value = parseFloat(match[0]);
+        if (!(value > 0)) continue;
+        // kg/m3 로 기록된 경우 g/mL 로 환산합니다.
+        return /kg\s*\/\s*m\s*3/i.test(text) ? value / 1000 : value;
+    }
+    return null;
+}
+
+// 물질별 밀도(g/mL)를 Properties 테이블에서 읽어옵니다. 밀도를 모르는 물질은 결과에 없습니다.
+export async function fetchDensities(substanceIds: number[]): Promise<Map<number, number>> {
+    const densities = new Map<number, number>();
+    if (substanceIds.length === 0) return densities;
+
+    const rowsBySubstance = new Map<number, PropertyRow[]>();
+    for (const ids of chunk(substanceIds)) {
+        const data = await fetchAllRows('Properties', (from, to) => supabase
+            .from('Properties')
+            .select('substance_id, name, property, units')
+            .in('substance_id', ids)
+            .ilike('name', '%density%')
+            .order('id')
+            .range(from, to));
+        for (const row of data) {
+            const rows = rowsBySubstance.get(row.substance_id) ?? [];
+            rows.push(row);
+            rowsBySubstance.set(row.substance_id, rows);
+        }
+    }
+    for (const [substanceId, rows] of rowsBySubstance) {
+        const density = parseDensityGPerMl(rows);
+        if (density != null) densities.set(substanceId, density);
+    }
+    return densities;
+}
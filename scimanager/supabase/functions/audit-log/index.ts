@@ -0,0 +1,84 @@
+// index.ts (Edge Function: audit-log)
+
+import { serve } from 'std/http/server.ts';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { authorize, EDITOR_ROLES } from '../_shared/auth.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { supabase } from '../_shared/supabaseClient.ts';
+
+const corsHeaders = createCorsHeaders('GET, OPTIONS');
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+function parseDateParam(url: URL, name: string): string | null {
+    const raw = url.searchParams.get(name);
+    if (!raw) return null;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) throw new HttpError(400, `${name} 날짜 형식이 올바르지 않습니다: '${raw}'`);
+    return date.toISOString();
+}
+
+function parseIntParam(url: URL, name: string, fallback: number | null): number | null {
+    const raw = url.searchParams.get(name);
+    if (raw === null || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw}'`);
+    return value;
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 감사 로그 조회
+// GET /audit-log?from=2026-03-01&to=2026-03-31&cabinet_id=3&actor_id=<uuid>&table=Inventory&row_id=12&limit=100&offset=0
+// ------------------------------------------------------------------
+async function handleGetAuditLog(req: Request) {
+    const url = new URL(req.url);
+    const from = parseDateParam(url, 'from');
+    const to = parseDateParam(url, 'to');
+    const cabinetId = parseIntParam(url, 'cabinet_id', null);
+    const limit = Math.min(parseIntParam(url, 'limit', DEFAULT_LIMIT)!, MAX_LIMIT);
+    const offset = parseIntParam(url, 'offset', 0)!;
+    const actorId = url.searchParams.get('actor_id');
+    const actorEmail = url.searchParams.get('actor_email');
+    const table = url.searchParams.get('table');
+    const rowId = url.searchParams.get('row_id');
+
+    let query = supabase
+        .from('AuditLog')
+        .select('id, created_at, actor_id, actor_email, actor_role, action, table_name, row_id, cabinet_ids, before, after', { count: 'exact' });
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+    if (cabinetId !== null) query = query.contains('cabinet_ids', [cabinetId]);
+    if (actorId) query = query.eq('actor_id', actorId);
+    if (actorEmail) query = query.eq('actor_email', actorEmail);
+    if (table) query = query.eq('table_name', table);
+    if (rowId) query = query.eq('row_id', rowId);
+
+    const { data: entries, count, error } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+    if (error) throw new Error(`AuditLog 조회 오류: ${error.message}`);
+
+    return jsonResponse(corsHeaders, { total: count, limit, offset, entries });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            await authorize(req, EDITOR_ROLES);
+            return await handleGetAuditLog(req);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Audit Log Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
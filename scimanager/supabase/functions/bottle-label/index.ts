@@ -0,0 +1,417 @@
+// index.ts (Edge Function: bottle-label)
+//
+//   GET /bottle-label?format=pdf|svg&inventory_id=&cabinet_id=&area_id=&start=   병 라벨 시트 (staff 이상)
+//   GET /bottle-label/lookup?identifier=                                     QR로 읽은 병 식별자 조회 (모든 사용자)
+//
+// 라벨의 QR 코드에는 병 식별자(bottle_identifier, `${casRn}-${uuid}`)만 들어갑니다.
+// 휴대폰으로 읽은 값을 /lookup 에 넘기면 병 정보와 시약장 칸 위치를 받고, inventory-usage 로 사용 기록을 남길 수 있습니다.
+// 폐기한 병은 라벨을 만들지 않지만 /lookup 으로는 폐기 기록과 함께 조회됩니다.
+
+import { serve } from 'std/http/server.ts';
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
+import QRCode from 'qrcode';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { ANY_ROLE, authorize, EDITOR_ROLES } from '../_shared/auth.ts';
+import { formatSlotLabel } from '../_shared/cabinetSlots.ts';
+import { HAZARD_CLASS_LABELS, HazardClass, resolveHazardClasses } from '../_shared/compatibility.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { DocumentFont, embedDocumentFont, fitText, pdfText } from '../_shared/pdf.ts';
+import { supabase } from '../_shared/supabaseClient.ts';
+
+const corsHeaders = createCorsHeaders('GET, OPTIONS');
+
+type LabelFormat = 'pdf' | 'svg';
+const LABEL_FORMATS: LabelFormat[] = ['pdf', 'svg'];
+
+const CONTENT_TYPES: Record<LabelFormat, string> = {
+    pdf: 'application/pdf',
+    svg: 'image/svg+xml; charset=utf-8',
+};
+
+// A4 라벨지 3열 x 7행 (63.5 x 38.1mm, 시중 21칸 라벨지 규격). 단위는 pt입니다.
+const MM = 72 / 25.4;
+const SHEET = {
+    pageWidth: 210 * MM,
+    pageHeight: 297 * MM,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5 * MM,
+    labelHeight: 38.1 * MM,
+    marginLeft: 7.2 * MM,
+    marginTop: 15.15 * MM,
+    gapX: 2.5 * MM,
+    gapY: 0,
+    padding: 2.5 * MM,
+};
+const LABELS_PER_SHEET = SHEET.columns * SHEET.rows;
+const MAX_LABELS = LABELS_PER_SHEET * 10;
+// QR 코드 둘레의 여백(모듈 수)
+const QR_QUIET_ZONE = 2;
+
+interface LabelData {
+    inventoryId: number;
+    identifier: string;
+    name: string;
+    casRn: string;
+    formula: string;
+    hazardClasses: HazardClass[];
+    cabinetName: string;
+    location: string;
+}
+
+// 라벨 한 장에 들어가는 글줄 (위에서부터)
+interface LabelLine {
+    text: string;
+    size: number;
+}
+
+// ------------------------------------------------------------------
+// 요청 해석
+// ------------------------------------------------------------------
+
+function parseIdParam(url: URL, name: string): number | null {
+    const raw = url.searchParams.get(name);
+    if (raw === null) return null;
+    const id = Number(raw);
+    if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw}'`);
+    return id;
+}
+
+// ?inventory_id=1&inventory_id=2 또는 ?inventory_id=1,2 모두 받습니다.
+function parseIdListParam(url: URL, name: string): number[] {
+    const values = url.searchParams.getAll(name).flatMap((value) => value.split(',')).map((value) => value.trim()).filter((value) => value.length > 0);
+    return values.map((value) => {
+        const id = Number(value);
+        if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${value}'`);
+        return id;
+    });
+}
+
+function parseFormat(raw: string | null): LabelFormat {
+    const format = (raw || 'pdf').toLowerCase();
+    if (!LABEL_FORMATS.includes(format as LabelFormat)) {
+        throw new HttpError(400, `알 수 없는 라벨 형식입니다: '${raw}' (사용 가능: ${LABEL_FORMATS.join(', ')})`);
+    }
+    return format as LabelFormat;
+}
+
+// 일부를 이미 쓴 라벨지에 이어서 인쇄할 때 첫 라벨 위치 (1부터)
+function parseStartPosition(raw: string | null): number {
+    if (raw === null) return 1;
+    const start = Number(raw);
+    if (!Number.isInteger(start) || start < 1 || start > LABELS_PER_SHEET) {
+        throw new HttpError(400, `start는 1~${LABELS_PER_SHEET} 사이의 정수여야 합니다: '${raw}'`);
+    }
+    return start;
+}
+
+// ------------------------------------------------------------------
+// 데이터 조회
+// ------------------------------------------------------------------
+
+async function fetchLabelData(filters: { inventoryIds: number[]; cabinetId: number | null; areaId: number | null }): Promise<LabelData[]> {
+    if (filters.inventoryIds.length === 0 && filters.cabinetId === null && filters.areaId === null) {
+        throw new HttpError(400, '라벨을 만들 병(inventory_id), 시약장(cabinet_id) 또는 약품실(area_id)을 지정해 주세요.');
+    }
+
+    let query = supabase
+        .from('Inventory')
+        .select(`id, bottle_identifier, classification,
+            door_vertical, door_horizontal, internal_shelf_level, storage_column, cabinet_id,
+            Substance(cas_rn, name, molecular_formula, hazard_classes),
+            Cabinet(name, Area(name))`)
+        .not('bottle_identifier', 'is', null)
+        .is('disposed_at', null);
+
+    if (filters.inventoryIds.length > 0) query = query.in('id', filters.inventoryIds);
+    if (filters.cabinetId !== null) query = query.eq('cabinet_id', filters.cabinetId);
+    if (filters.areaId !== null) {
+        const { data: cabinets, error } = await supabase.from('Cabinet').select('id').eq('area_id', filters.areaId);
+        if (error) throw new Error(`Cabinet 조회 오류: ${error.message}`);
+        if (cabinets.length === 0) return [];
+        query = query.in('cabinet_id', cabinets.map((cabinet) => cabinet.id));
+    }
+
+    const { data: bottles, error } = await query;
+    if (error) throw new Error(`Inventory 조회 오류: ${error.message}`);
+    if (bottles.length > MAX_LABELS) throw new HttpError(400, `한 번에 만들 수 있는 라벨은 ${MAX_LABELS}장까지입니다. (요청: ${bottles.length}장)`);
+
+    const labels = bottles.map((bottle): LabelData => {
+        // 일대다 관계로 추론되는 경우를 위해 배열/객체 모두 처리합니다.
+        const substance = Array.isArray(bottle.Substance) ? bottle.Substance[0] : bottle.Substance;
+        const cabinet = Array.isArray(bottle.Cabinet) ? bottle.Cabinet[0] : bottle.Cabinet;
+        const area = cabinet ? (Array.isArray(cabinet.Area) ? cabinet.Area[0] : cabinet.Area) : null;
+        return {
+            inventoryId: bottle.id,
+            identifier: bottle.bottle_identifier,
+            name: substance?.name ?? '',
+            casRn: substance?.cas_rn ?? '',
+            formula: substance?.molecular_formula ?? '',
+            hazardClasses: resolveHazardClasses(bottle.classification, substance?.hazard_classes),
+            cabinetName: [area?.name, cabinet?.name].filter(Boolean).join(' / '),
+            location: formatSlotLabel(bottle),
+        };
+    });
+
+    // 시약장 → 칸 순서로 붙이면 정리할 때 찾기 쉽습니다.
+    const collator = new Intl.Collator('ko', { numeric: true });
+    return labels.sort((a, b) =>
+        collator.compare(a.cabinetName, b.cabinetName) ||
+        collator.compare(a.location, b.location) ||
+        a.inventoryId - b.inventoryId
+    );
+}
+
+// ------------------------------------------------------------------
+// 라벨 그리기
+// ------------------------------------------------------------------
+
+// QR 코드를 SVG 경로로 만듭니다. (PDF도 같은 경로를 그립니다.) 한 변의 모듈 수도 함께 돌려줍니다.
+function createQrPath(text: string): { path: string; size: number } {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    const parts: string[] = [];
+    for (let row = 0; row < modules.size; row++) {
+        // 가로로 이어진 검은 모듈은 사각형 하나로 그립니다.
+        for (let col = 0; col < modules.size; col++) {
+            if (!modules.get(row, col)) continue;
+            let run = 1;
+            while (col + run < modules.size && modules.get(row, col + run)) run++;
+            parts.push(`M${col + QR_QUIET_ZONE} ${row + QR_QUIET_ZONE}h${run}v1h-${run}z`);
+            col += run - 1;
+        }
+    }
+    return { path: parts.join(''), size: modules.size + QR_QUIET_ZONE * 2 };
+}
+
+function hazardText(classes: HazardClass[], korean: boolean): string {
+    if (classes.length === 0) return '';
+    return korean
+        ? `위험: ${classes.map((value) => HAZARD_CLASS_LABELS[value]).join(', ')}`
+        : `Hazard: ${classes.map((value) => value.replace('_', '-')).join(', ')}`;
+}
+
+function labelLines(label: LabelData, korean: boolean): LabelLine[] {
+    return [
+        { text: label.name || label.casRn, size: 9 },
+        { text: `CAS ${label.casRn}`, size: 7 },
+        { text: label.formula, size: 7 },
+        { text: hazardText(label.hazardClasses, korean), size: 7 },
+        { text: label.cabinetName, size: 6.5 },
+        { text: label.location, size: 6.5 },
+    ].filter((line) => line.text.length > 0);
+}
+
+// 라벨 순번(0부터) → 라벨지에서의 왼쪽 위 좌표 (위쪽 기준)
+function labelPosition(index: number): { page: number; x: number; top: number } {
+    const slot = index % LABELS_PER_SHEET;
+    return {
+        page: Math.floor(index / LABELS_PER_SHEET),
+        x: SHEET.marginLeft + (slot % SHEET.columns) * (SHEET.labelWidth + SHEET.gapX),
+        top: SHEET.marginTop + Math.floor(slot / SHEET.columns) * (SHEET.labelHeight + SHEET.gapY),
+    };
+}
+
+async function renderPdf(labels: LabelData[], start: number): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    const documentFont: DocumentFont = await embedDocumentFont(doc);
+    const { font } = documentFont;
+    doc.setTitle('Bottle labels');
+
+    const qrSize = SHEET.labelHeight - SHEET.padding * 2;
+    const textX = SHEET.padding + qrSize + 1.5 * MM;
+    const textWidth = SHEET.labelWidth - textX - SHEET.padding;
+
+    const pages: PDFPage[] = [];
+    labels.forEach((label, i) => {
+        const position = labelPosition(i + start - 1);
+        const page = pages[position.page] ??= doc.addPage([SHEET.pageWidth, SHEET.pageHeight]);
+        const left = position.x;
+        const top = SHEET.pageHeight - position.top;
+
+        const qr = createQrPath(label.identifier);
+        page.drawSvgPath(qr.path, { x: left + SHEET.padding, y: top - SHEET.padding, scale: qrSize / qr.size, color: rgb(0, 0, 0) });
+
+        let y = top - SHEET.padding;
+        for (const line of labelLines(label, documentFont.supportsKorean)) {
+            y -= line.size + 2;
+            page.drawText(fitText(pdfText(line.text, documentFont), font, line.size, textWidth), { x: left + textX, y, size: line.size, font, color: rgb(0, 0, 0) });
+        }
+        // 식별자는 QR을 읽을 수 없을 때 손으로 입력할 수 있도록 작게 적습니다.
+        page.drawText(fitText(label.identifier, font, 4.5, textWidth), { x: left + textX, y: top - SHEET.labelHeight + SHEET.padding, size: 4.5, font, color: rgb(0.3, 0.3, 0.3) });
+    });
+    return await doc.save();
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[ch]!));
+}
+
+// SVG에서는 글꼴 폭을 알 수 없으므로 한글은 1em, 그 외는 0.55em으로 어림잡아 자릅니다.
+function truncateForWidth(text: string, size: number, maxWidth: number): string {
+    const widthOf = (value: string) => [...value].reduce((sum, ch) => sum + (/[ᄀ-ᇿ㄰-㆏가-힣]/.test(ch) ? 1 : 0.55) * size, 0);
+    if (widthOf(text) <= maxWidth) return text;
+    const chars = [...text];
+    while (chars.length > 0 && widthOf(`${chars.join('')}...`) > maxWidth) chars.pop();
+    return `${chars.join('')}...`;
+}
+
+// SVG는 페이지를 나눌 수 없으므로 라벨지 여러 장을 세로로 이어 붙입니다.
+function renderSvg(labels: LabelData[], start: number): Uint8Array {
+    const sheetCount = Math.max(1, Math.ceil((labels.length + start - 1) / LABELS_PER_SHEET));
+    const width = SHEET.pageWidth;
+    const height = SHEET.pageHeight * sheetCount;
+
+    const qrSize = SHEET.labelHeight - SHEET.padding * 2;
+    const textX = SHEET.padding + qrSize + 1.5 * MM;
+    const textWidth = SHEET.labelWidth - textX - SHEET.padding;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const parts: string[] = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="210mm" height="${297 * sheetCount}mm" viewBox="0 0 ${round(width)} ${round(height)}" font-family="'NanumGothic', 'Malgun Gothic', sans-serif">`,
+    ];
+    labels.forEach((label, i) => {
+        const position = labelPosition(i + start - 1);
+        const top = position.page * SHEET.pageHeight + position.top;
+        const qr = createQrPath(label.identifier);
+
+        parts.push(`<g transform="translate(${round(position.x)} ${round(top)})">`);
+        parts.push(`<path transform="translate(${round(SHEET.padding)} ${round(SHEET.padding)}) scale(${(qrSize / qr.size).toFixed(4)})" d="${qr.path}" fill="#000"/>`);
+        let y = SHEET.padding;
+        for (const line of labelLines(label, true)) {
+            y += line.size + 2;
+            parts.push(`<text x="${round(textX)}" y="${round(y)}" font-size="${line.size}">${escapeXml(truncateForWidth(line.text, line.size, textWidth))}</text>`);
+        }
+        parts.push(`<text x="${round(textX)}" y="${round(SHEET.labelHeight - SHEET.padding)}" font-size="4.5" fill="#4d4d4d">${escapeXml(truncateForWidth(label.identifier, 4.5, textWidth))}</text>`);
+        parts.push('</g>');
+    });
+    parts.push('</svg>');
+    return new TextEncoder().encode(parts.join('\n'));
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 라벨 시트 내려받기
+// GET /bottle-label?format=pdf&cabinet_id=3&start=5
+// ------------------------------------------------------------------
+async function handleGetLabels(url: URL) {
+    const format = parseFormat(url.searchParams.get('format'));
+    const start = parseStartPosition(url.searchParams.get('start'));
+    const labels = await fetchLabelData({
+        inventoryIds: parseIdListParam(url, 'inventory_id'),
+        cabinetId: parseIdParam(url, 'cabinet_id'),
+        areaId: parseIdParam(url, 'area_id'),
+    });
+    if (labels.length === 0) throw new HttpError(404, '라벨을 만들 병이 없습니다. (병 식별자가 있는 병만 라벨을 만들 수 있습니다.)');
+
+    const body = format === 'pdf' ? await renderPdf(labels, start) : renderSvg(labels, start);
+    const fileName = `bottle-labels-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}.${format}`;
+    return new Response(new Uint8Array(body), {
+        status: 200,
+        headers: {
+            ...corsHeaders,
+            'Content-Type': CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${fileName}"`,
+            'Access-Control-Expose-Headers': 'Content-Disposition',
+        },
+    });
+}
+
+// ------------------------------------------------------------------
+// GET 로직: QR로 읽은 병 식별자 조회
+// GET /bottle-label/lookup?identifier=64-17-5-0b5f...
+// ------------------------------------------------------------------
+async function handleLookup(url: URL) {
+    const identifier = (url.searchParams.get('identifier') || '').trim().toLowerCase();
+    if (!identifier) throw new HttpError(400, '병 식별자(identifier)가 필요합니다.');
+
+    const { data: bottle, error } = await supabase
+        .from('Inventory')
+        .select(`*,
+            Substance(id, cas_rn, name, molecular_formula, molecular_mass, inchikey, hazard_classes),
+            Cabinet(id, name, archived_at, door_vertical_count, door_horizontal_count, shelf_height, storage_columns, Area(id, name))`)
+        .eq('bottle_identifier', identifier)
+        .maybeSingle();
+    if (error) throw new Error(`Inventory 조회 오류: ${error.message}`);
+    if (!bottle) throw new HttpError(404, `등록되지 않은 병 식별자입니다: ${identifier}`);
+
+    const { Substance: substanceRaw, Cabinet: cabinetRaw, ...inventory } = bottle;
+    const substance = Array.isArray(substanceRaw) ? substanceRaw[0] : substanceRaw;
+    const cabinet = Array.isArray(cabinetRaw) ? cabinetRaw[0] : cabinetRaw;
+    const area = cabinet ? (Array.isArray(cabinet.Area) ? cabinet.Area[0] : cabinet.Area) : null;
+
+    const { data: recentUsage, error: usageError } = await supabase
+        .from('UsageHistory')
+        .select('id, amount, unit, used_by, purpose, used_at, remaining_amount')
+        .eq('inventory_id', inventory.id)
+        .order('used_at', { ascending: false })
+        .limit(5);
+    if (usageError) throw new Error(`UsageHistory 조회 오류: ${usageError.message}`);
+
+    // 폐기한 병도 이력 확인을 위해 조회되며, 폐기 기록을 함께 보냅니다.
+    let disposal = null;
+    if (inventory.disposed_at) {
+        const { data, error: disposalError } = await supabase
+            .from('Disposal')
+            .select('id, reason, method, disposed_on, amount, unit, waste_container_id, waste_amount, location, note, WasteContainer(name, waste_category)')
+            .eq('inventory_id', inventory.id)
+            .maybeSingle();
+        if (disposalError) throw new Error(`Disposal 조회 오류: ${disposalError.message}`);
+        disposal = data;
+    }
+
+    return jsonResponse(corsHeaders, {
+        inventory,
+        substance: substance ?? null,
+        hazardClasses: resolveHazardClasses(inventory.classification, substance?.hazard_classes),
+        location: {
+            area: area ? { id: area.id, name: area.name } : null,
+            cabinet: cabinet ? { id: cabinet.id, name: cabinet.name, archived: Boolean(cabinet.archived_at) } : null,
+            // 화면에서 시약장 격자를 그리고 이 병의 칸을 표시할 수 있도록 크기와 좌표를 함께 보냅니다.
+            grid: cabinet
+                ? {
+                    door_vertical_count: cabinet.door_vertical_count,
+                    door_horizontal_count: cabinet.door_horizontal_count,
+                    shelf_height: cabinet.shelf_height,
+                    storage_columns: cabinet.storage_columns,
+                }
+                : null,
+            slot: inventory.door_vertical == null
+                ? null
+                : {
+                    door_vertical: inventory.door_vertical,
+                    door_horizontal: inventory.door_horizontal,
+                    internal_shelf_level: inventory.internal_shelf_level,
+                    storage_column: inventory.storage_column,
+                },
+            label: formatSlotLabel(inventory),
+        },
+        recentUsage,
+        disposal,
+    });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            const url = new URL(req.url);
+            // 조회는 모든 사용자, 라벨 인쇄는 staff 이상만 가능합니다.
+            if (url.pathname.endsWith('/lookup')) {
+                await authorize(req, ANY_ROLE);
+                return await handleLookup(url);
+            }
+            await authorize(req, EDITOR_ROLES);
+            return await handleGetLabels(url);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Bottle Label Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
@@ -1,18 +1,24 @@
 // index.ts (Edge Function: cabinet-register)
 
 import { serve } from 'std/http/server.ts';
-import { createClient } from '@supabase/supabase-js';
-import { decode } from "std/encoding/base64.ts";
-
-const ALLOWED_ORIGIN = 'https://pogoksci.github.io'; 
-
-const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
-const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-
-const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
-    auth: { persistSession: false },
-    global: { headers: { 'Authorization': `Bearer ${SERVICE_ROLE_KEY}` } }
-});
+import { CABINET_GEOMETRY_COLUMNS, isSlotInside, slotKey, SlotCoordinates } from '../_shared/cabinetSlots.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { ADMIN_ONLY, ANY_ROLE, AuthUser, authorize, EDITOR_ROLES, UserRole } from '../_shared/auth.ts';
+import { createCabinet, deleteAreaIfEmpty, deleteCabinet, fetchCabinetBottles, parseDeletionMode, resolveAreaId } from '../_shared/cabinets.ts';
+import { ALLOWED_ORIGIN } from '../_shared/cors.ts';
+import { getErrorMessage, HttpError } from '../_shared/errors.ts';
+import { CABINET_PHOTO_BUCKET, pickPhotoSource, PhotoSize, PhotoUrls, preparePhotoVariants, removeStoredPhotos, replacePhotos } from '../_shared/images.ts';
+import { supabase } from '../_shared/supabaseClient.ts';
+
+const CABINET_DIMENSION_FIELDS = ['door_vertical_count', 'door_horizontal_count', 'shelf_height', 'storage_columns'] as const;
+
+// 메서드별 허용 역할: 조회는 모든 사용자, 등록/수정은 staff 이상, 삭제는 admin만 가능합니다.
+const ROUTE_ROLES: Record<string, UserRole[]> = {
+    GET: ANY_ROLE,
+    POST: EDITOR_ROLES,
+    PATCH: EDITOR_ROLES,
+    DELETE: ADMIN_ONLY,
+};
 
 // ------------------------------------------------------------------
 // 헬퍼 함수
@@ -22,16 +28,60 @@ function withCorsHeaders(response: Response, status: number = 200) {
     const headers = {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
-        'Access-Control-Allow-Methods': 'POST, DELETE, OPTIONS',
+        'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
         'Access-Control-Allow-Headers': 'Authorization, Content-Type, x-client-info, apikey',
     };
     return new Response(response.body, { headers, status });
 }
 
+// 같은 장소에 같은 이름의 (보관 처리되지 않은) 캐비닛이 있으면 409 오류를 던집니다.
+async function assertCabinetNameAvailable(areaId: number, areaName: string, cabinetName: string, excludeCabinetId?: number) {
+    let query = supabase
+        .from('Cabinet')
+        .select('id')
+        .eq('area_id', areaId)
+        .eq('name', cabinetName)
+        .is('archived_at', null);
+    if (excludeCabinetId !== undefined) query = query.neq('id', excludeCabinetId);
+
+    const { data: existingCabinets, error: checkError } = await query;
+    if (checkError) {
+        throw new Error(`DB 조회 오류: ${checkError.message}`);
+    }
+
+    if (existingCabinets.length > 0) {
+        throw new HttpError(409, `'${areaName}'에 '${cabinetName}' 이름의 시약장이 이미 존재합니다.`);
+    }
+}
+
+// 사진 원본을 검증하고 축소본을 만듭니다. undefined는 변경 없음, null은 삭제입니다.
+async function prepareCabinetPhoto(source: unknown): Promise<Map<PhotoSize, Uint8Array> | null | undefined> {
+    if (source === undefined || source === null) return source;
+    return await preparePhotoVariants(source);
+}
+
+// 축소본을 cabinet-photos 버킷에 `${id}_320.png`, `${id}_160.png`로 올리고 Cabinet의 사진 URL을 갱신합니다.
+// null이면 사진을 지우고 URL을 비웁니다. 이전 파일명 규칙으로 남아 있던 사진도 함께 정리합니다.
+async function updateCabinetPhotos(cabinet: Record<string, unknown> & { id: number } & Partial<PhotoUrls>, variants: Map<PhotoSize, Uint8Array> | null | undefined, user: AuthUser) {
+    if (variants === undefined) return;
+
+    let photoUpdate = { photo_url_320: null as string | null, photo_url_160: null as string | null };
+    if (variants === null) {
+        await removeStoredPhotos(CABINET_PHOTO_BUCKET, cabinet);
+    } else {
+        photoUpdate = (await replacePhotos(CABINET_PHOTO_BUCKET, String(cabinet.id), variants, cabinet)).urls;
+    }
+
+    const { Area: _area, ...before } = cabinet;
+    const { data: after, error: updateError } = await supabase.from('Cabinet').update(photoUpdate).eq('id', cabinet.id).select().single();
+    if (updateError) throw new Error(`사진 URL 업데이트 오류: ${updateError.message}`);
+    await recordAudit(user, { action: 'update', table: 'Cabinet', rowId: cabinet.id, before, after });
+}
+
 // ------------------------------------------------------------------
 // ⬇️ [수정됨] POST 로직: 캐비닛 등록 (중복 확인 추가)
 // ------------------------------------------------------------------
-async function handleCabinetRegistration(req: Request) {
+async function handleCabinetRegistration(req: Request, user: AuthUser) {
     try {
         const cabinetData = await req.json();
         const areaName = cabinetData?.area_name?.trim() || '';
@@ -42,84 +92,21 @@ async function handleCabinetRegistration(req: Request) {
         }
         
         // 1. Area ID 확보 (기존 로직 유지)
-        let areaId: number;
-        const { data: existingArea } = await supabase.from('Area').select('id').eq('name', areaName).single();
-        if (existingArea) {
-            areaId = existingArea.id;
-        } else {
-            const { data: newArea, error: areaInsertError } = await supabase.from('Area').insert([{ name: areaName }]).select('id').single();
-            if (areaInsertError) throw new Error(`Area 등록 오류: ${areaInsertError.message}`);
-            areaId = newArea.id;
-        }
+        const areaId = await resolveAreaId(areaName, user);
 
-        // ⬇️ [새로운 코드 추가] 2. 같은 장소에 같은 이름의 캐비닛이 있는지 확인
-        const { data: existingCabinet, error: checkError } = await supabase
-            .from('Cabinet')
-            .select('id')
-            .eq('area_id', areaId)
-            .eq('name', cabinetName)
-            .single();
+        // 2. 같은 장소에 같은 이름의 캐비닛이 있는지 확인
+        await assertCabinetNameAvailable(areaId, areaName, cabinetName);
 
-        if (checkError && checkError.code !== 'PGRST116') { // PGRST116는 '결과 없음' 오류이므로 무시
-            throw new Error(`DB 조회 오류: ${checkError.message}`);
-        }
-
-        if (existingCabinet) {
-            throw new Error(`'${areaName}'에 '${cabinetName}' 이름의 시약장이 이미 존재합니다.`);
-        }
+        // 사진은 캐비닛을 만들기 전에 검증해 잘못된 사진 때문에 사진 없는 캐비닛이 남지 않게 합니다.
+        const photoVariants = await prepareCabinetPhoto(pickPhotoSource(cabinetData) ?? undefined);
 
         // 3. 중복이 없을 경우에만 캐비닛 데이터 삽입 (기존 로직 유지)
-        const newCabinetData = {
-            area_id: areaId,
-            name: cabinetName,
-            door_vertical_count: cabinetData.door_vertical_count || 1,
-            door_horizontal_count: cabinetData.door_horizontal_count || 1,
-            shelf_height: cabinetData.shelf_height || 3,
-            storage_columns: cabinetData.storage_columns || 6,
-        };
-
         // 1. 먼저 사진 URL 없이 캐비닛 정보만 삽입하고 id를 받아옵니다.
-        const { data: cabinetInsert, error: cabinetError } = await supabase
-            .from('Cabinet').insert([newCabinetData]).select('id, name').single();
-        if (cabinetError) throw new Error(`Cabinet 삽입 오류: ${cabinetError.message}`);
-        
+        const cabinetInsert = await createCabinet(areaId, cabinetName, cabinetData, user);
         const cabinetId = cabinetInsert.id;
 
-        // 2. 사진 업로드 및 URL 업데이트 로직 (casimport 함수와 동일)
-        const photoUrls: { url_320: string | null; url_160: string | null } = { url_320: null, url_160: null };
-        const uploadPromises = [];
-
-        if (cabinetData.photo_320_base64) {
-            const path_320 = `${cabinetId}_320.png`; // 파일 이름 규칙
-            const imageData320 = decode(cabinetData.photo_320_base64.split(',')[1]);
-            uploadPromises.push(supabase.storage.from('cabinet-photos').upload(path_320, imageData320, { contentType: 'image/png', upsert: true }));
-        }
-        if (cabinetData.photo_160_base64) {
-            const path_160 = `${cabinetId}_160.png`;
-            const imageData160 = decode(cabinetData.photo_160_base64.split(',')[1]);
-            uploadPromises.push(supabase.storage.from('cabinet-photos').upload(path_160, imageData160, { contentType: 'image/png', upsert: true }));
-        }
-
-        const uploadResults = await Promise.all(uploadPromises);
-
-        for (const result of uploadResults) {
-            if (result.error) console.error("Storage 업로드 오류:", result.error.message);
-            if (!result.data) continue;
-            if (result.data.path.includes('_320.png')) {
-                photoUrls.url_320 = supabase.storage.from('cabinet-photos').getPublicUrl(result.data.path).data.publicUrl;
-            }
-            if (result.data.path.includes('_160.png')) {
-                photoUrls.url_160 = supabase.storage.from('cabinet-photos').getPublicUrl(result.data.path).data.publicUrl;
-            }
-        }
-
-        if (photoUrls.url_320 || photoUrls.url_160) {
-            const { error: updateError } = await supabase.from('Cabinet').update({ 
-                photo_url_320: photoUrls.url_320,
-                photo_url_160: photoUrls.url_160
-            }).eq('id', cabinetId);
-            if (updateError) console.error("사진 URL 업데이트 오류:", updateError.message);
-        }
+        // 2. 사진 업로드 및 URL 업데이트
+        await updateCabinetPhotos(cabinetInsert, photoVariants, user);
 
         return withCorsHeaders(new Response(JSON.stringify({ 
             status: 'success', 
@@ -131,70 +118,206 @@ async function handleCabinetRegistration(req: Request) {
         const errorMessage = e instanceof Error ? e.message : String(e);
         console.error('Cabinet Registration Fatal Error:', errorMessage);
         // ⬇️ [수정] 중복 오류 시 409 Conflict 상태 코드를 보내면 더 명확합니다.
-        const status = errorMessage.includes('이미 존재합니다') ? 409 : 500;
+        const status = e instanceof HttpError ? e.status : 500;
         return withCorsHeaders(new Response(JSON.stringify({ error: errorMessage }), { status }));
     }
 }
 
 // ------------------------------------------------------------------
-// DELETE 로직: 캐비닛 및 빈 Area 삭제 처리 (기존과 동일)
+// GET 로직: 시약장 칸 배치도 (각 칸의 병 정보와 빈 칸 목록)
+// GET /cabinet-register?id=3
 // ------------------------------------------------------------------
-async function handleCabinetDeletion(req: Request) {
+async function handleGetCabinetLayout(req: Request) {
     try {
         const url = new URL(req.url);
         const cabinetId = url.searchParams.get('id');
 
         if (!cabinetId) {
-            throw new Error('삭제할 캐비닛 ID가 필요합니다.');
+            throw new HttpError(400, '조회할 캐비닛 ID가 필요합니다.');
         }
 
-        const { data: cabinetToDelete, error: selectError } = await supabase
+        const { data: cabinet, error: cabinetError } = await supabase
             .from('Cabinet')
-            .select('area_id')
+            .select(`${CABINET_GEOMETRY_COLUMNS}, area_id, name, photo_url_160`)
             .eq('id', cabinetId)
             .single();
 
-        if (selectError || !cabinetToDelete) {
-            throw new Error(`삭제할 캐비닛(ID: ${cabinetId})을 찾을 수 없습니다: ${selectError?.message || ''}`);
+        if (cabinetError || !cabinet) {
+            throw new HttpError(404, `캐비닛(ID: ${cabinetId})을 찾을 수 없습니다: ${cabinetError?.message || ''}`);
         }
-        const { area_id } = cabinetToDelete;
 
-        const { error: deleteError } = await supabase
-            .from('Cabinet')
-            .delete()
-            .eq('id', cabinetId);
+        const { data: bottles, error: inventoryError } = await supabase
+            .from('Inventory')
+            .select('id, bottle_identifier, door_vertical, door_horizontal, internal_shelf_level, storage_column, photo_url_160, Substance(name, cas_rn)')
+            .eq('cabinet_id', cabinetId)
+            .is('disposed_at', null);
 
-        if (deleteError) {
-            throw new Error(`DB 삭제 오류: ${deleteError.message}`);
+        if (inventoryError) {
+            throw new Error(`Inventory 조회 오류: ${inventoryError.message}`);
         }
 
-        const { count, error: countError } = await supabase
-            .from('Cabinet')
-            .select('*', { count: 'exact', head: true })
-            .eq('area_id', area_id);
+        const occupants = new Map<string, Record<string, unknown>>();
+        const unplaced = [];
+        for (const bottle of bottles) {
+            const substance = Array.isArray(bottle.Substance) ? bottle.Substance[0] : bottle.Substance;
+            const occupant = {
+                inventoryId: bottle.id,
+                bottleIdentifier: bottle.bottle_identifier,
+                substanceName: substance?.name || substance?.cas_rn || null,
+                photo_url_160: bottle.photo_url_160,
+            };
+            // 좌표가 없거나 시약장 크기를 벗어난 병은 따로 모아서 알려줍니다.
+            if (!isSlotInside(cabinet, bottle)) {
+                unplaced.push({ ...occupant, door_vertical: bottle.door_vertical, door_horizontal: bottle.door_horizontal, internal_shelf_level: bottle.internal_shelf_level, storage_column: bottle.storage_column });
+                continue;
+            }
+            occupants.set(slotKey(bottle as SlotCoordinates), occupant);
+        }
 
-        if (countError) {
-            console.error(`캐비닛 개수 확인 중 오류: ${countError.message}`);
+        const freeSlots: SlotCoordinates[] = [];
+        const doors = [];
+        for (let v = 1; v <= cabinet.door_vertical_count; v++) {
+            for (let h = 1; h <= cabinet.door_horizontal_count; h++) {
+                const shelves = [];
+                for (let level = 1; level <= cabinet.shelf_height; level++) {
+                    const columns = [];
+                    for (let column = 1; column <= cabinet.storage_columns; column++) {
+                        const slot = { door_vertical: v, door_horizontal: h, internal_shelf_level: level, storage_column: column };
+                        const occupant = occupants.get(slotKey(slot)) || null;
+                        if (!occupant) freeSlots.push(slot);
+                        columns.push({ storage_column: column, occupant });
+                    }
+                    shelves.push({ internal_shelf_level: level, columns });
+                }
+                doors.push({ door_vertical: v, door_horizontal: h, shelves });
+            }
         }
 
-        if (count === 0) {
-            console.log(`Area (ID: ${area_id})에 남은 캐비닛이 없어 Area를 삭제합니다.`);
-            const { error: areaDeleteError } = await supabase
-                .from('Area')
-                .delete()
-                .eq('id', area_id);
+        return withCorsHeaders(new Response(JSON.stringify({ cabinet, doors, freeSlots, unplaced }), { status: 200 }));
 
-            if (areaDeleteError) {
-                console.error(`Area (ID: ${area_id}) 삭제 중 오류 발생: ${areaDeleteError.message}`);
+    } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        console.error('Cabinet Layout Fatal Error:', errorMessage);
+        const status = e instanceof HttpError ? e.status : 500;
+        return withCorsHeaders(new Response(JSON.stringify({ error: errorMessage }), { status }));
+    }
+}
+
+// ------------------------------------------------------------------
+// PATCH 로직: 캐비닛 이름/크기/위치(Area)/사진 변경
+// 요청 형식: { id, cabinet_name?, area_name?, door_vertical_count?, door_horizontal_count?, shelf_height?, storage_columns?, photo_base64? }
+// photo_base64: JPEG/PNG/WebP data URL 한 장 (null이면 사진 삭제)
+// ------------------------------------------------------------------
+async function handleCabinetUpdate(req: Request, user: AuthUser) {
+    try {
+        const cabinetData = await req.json();
+        const cabinetId = Number(cabinetData?.id);
+
+        if (!Number.isInteger(cabinetId) || cabinetId <= 0) {
+            throw new HttpError(400, '수정할 캐비닛 ID가 필요합니다.');
+        }
+
+        const { data: cabinet, error: selectError } = await supabase
+            .from('Cabinet')
+            .select('*, Area(name)')
+            .eq('id', cabinetId)
+            .maybeSingle();
+
+        if (selectError) throw new Error(`DB 조회 오류: ${selectError.message}`);
+        if (!cabinet || cabinet.archived_at) throw new HttpError(404, `수정할 캐비닛(ID: ${cabinetId})을 찾을 수 없습니다.`);
+
+        const photoVariants = await prepareCabinetPhoto(pickPhotoSource(cabinetData));
+        const updates: Record<string, unknown> = {};
+
+        // 1. 이름/Area 변경: 옮겨 갈 Area에 같은 이름이 있는지 확인합니다.
+        const cabinetName = cabinetData.cabinet_name?.trim() || cabinet.name;
+        const area = Array.isArray(cabinet.Area) ? cabinet.Area[0] : cabinet.Area;
+        const areaName = cabinetData.area_name?.trim() || area?.name || '';
+        const areaId = cabinetData.area_name?.trim() ? await resolveAreaId(areaName, user) : cabinet.area_id;
+        if (cabinetName !== cabinet.name || areaId !== cabinet.area_id) {
+            await assertCabinetNameAvailable(areaId, areaName, cabinetName, cabinetId);
+            updates.name = cabinetName;
+            updates.area_id = areaId;
+        }
+
+        // 2. 크기 변경: 줄어든 범위 밖에 병이 남으면 거부합니다.
+        const geometry = { ...cabinet };
+        for (const field of CABINET_DIMENSION_FIELDS) {
+            if (cabinetData[field] === undefined) continue;
+            const value = Number(cabinetData[field]);
+            if (!Number.isInteger(value) || value < 1) {
+                throw new HttpError(400, `${field} 값은 1 이상의 정수여야 합니다.`);
+            }
+            geometry[field] = value;
+            updates[field] = value;
+        }
+        if (CABINET_DIMENSION_FIELDS.some((field) => geometry[field] < cabinet[field])) {
+            const stranded = (await fetchCabinetBottles(cabinetId)).filter((bottle) => isSlotInside(cabinet, bottle) && !isSlotInside(geometry, bottle));
+            if (stranded.length > 0) {
+                throw new HttpError(409, `크기를 줄이면 병 ${stranded.length}개가 범위를 벗어납니다. (재고 ID: ${stranded.map((b) => b.id).join(', ')})`);
             }
         }
 
-        return withCorsHeaders(new Response(JSON.stringify({ message: `ID ${cabinetId} 캐비닛이 삭제되었습니다.` }), { status: 200 }));
+        let current = cabinet;
+        if (Object.keys(updates).length > 0) {
+            const { data: updated, error: updateError } = await supabase.from('Cabinet').update(updates).eq('id', cabinetId).select().single();
+            if (updateError) throw new Error(`Cabinet 수정 오류: ${updateError.message}`);
+            const { Area: _area, ...before } = cabinet;
+            await recordAudit(user, { action: 'update', table: 'Cabinet', rowId: cabinetId, before, after: updated });
+            current = updated;
+        }
+
+        // 3. 사진 교체/삭제
+        await updateCabinetPhotos(current, photoVariants, user);
+
+        // 4. 다른 Area로 옮겨서 이전 Area가 비었으면 삭제합니다. (Area 삭제는 admin만 가능)
+        const areaDeleted = areaId !== cabinet.area_id && user.role === 'admin' ? await deleteAreaIfEmpty(cabinet.area_id, user) : false;
+
+        return withCorsHeaders(new Response(JSON.stringify({
+            status: 'success',
+            cabinetId: cabinetId,
+            cabinetName: cabinetName,
+            areaId: areaId,
+            areaDeleted: areaDeleted,
+        }), { status: 200 }));
 
     } catch (e) {
-        const errorMessage = e instanceof Error ? e.message : String(e);
+        const errorMessage = getErrorMessage(e);
+        console.error('Cabinet Update Fatal Error:', errorMessage);
+        const status = e instanceof HttpError ? e.status : 500;
+        return withCorsHeaders(new Response(JSON.stringify({ error: errorMessage }), { status }));
+    }
+}
+
+// ------------------------------------------------------------------
+// DELETE 로직: 캐비닛 및 빈 Area 삭제 처리
+// DELETE /cabinet-register?id=3                          병이 있으면 거부
+// DELETE /cabinet-register?id=3&mode=reassign&target_id=5 병을 5번 시약장으로 옮긴 뒤 삭제
+// DELETE /cabinet-register?id=3&mode=archive              병은 그대로 두고 시약장만 보관 처리
+// ------------------------------------------------------------------
+async function handleCabinetDeletion(req: Request, user: AuthUser) {
+    try {
+        const url = new URL(req.url);
+        const cabinetId = url.searchParams.get('id');
+
+        if (!cabinetId) {
+            throw new HttpError(400, '삭제할 캐비닛 ID가 필요합니다.');
+        }
+
+        const mode = parseDeletionMode(url.searchParams.get('mode'));
+        const targetId = url.searchParams.get('target_id');
+        const result = await deleteCabinet(Number(cabinetId), mode, targetId ? Number(targetId) : null, user);
+
+        const message = mode === 'archive'
+            ? `ID ${cabinetId} 캐비닛이 보관 처리되었습니다.`
+            : `ID ${cabinetId} 캐비닛이 삭제되었습니다.`;
+        return withCorsHeaders(new Response(JSON.stringify({ message, ...result }), { status: 200 }));
+
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
         console.error('Cabinet Deletion Fatal Error:', errorMessage);
-        return withCorsHeaders(new Response(JSON.stringify({ error: errorMessage }), { status: 500 }));
+        const status = e instanceof HttpError ? e.status : 500;
+        return withCorsHeaders(new Response(JSON.stringify({ error: errorMessage }), { status }));
     }
 }
 
@@ -206,18 +329,39 @@ serve(async (req: Request) => {
         return new Response('ok', {
             headers: {
                 'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
-                'Access-Control-Allow-Methods': 'POST, DELETE, OPTIONS',
+                'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
                 'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
             }
         });
     }
 
+    const allowedRoles = ROUTE_ROLES[req.method];
+    if (!allowedRoles) {
+        return withCorsHeaders(new Response(JSON.stringify({ error: "Method Not Allowed" }), { status: 405 }));
+    }
+
+    let user: AuthUser;
+    try {
+        user = await authorize(req, allowedRoles);
+    } catch (e) {
+        const status = e instanceof HttpError ? e.status : 500;
+        return withCorsHeaders(new Response(JSON.stringify({ error: getErrorMessage(e) }), { status }));
+    }
+
+    if (req.method === 'GET') {
+        return await handleGetCabinetLayout(req);
+    }
+
     if (req.method === 'POST') {
-        return await handleCabinetRegistration(req);
+        return await handleCabinetRegistration(req, user);
     }
     
+    if (req.method === 'PATCH') {
+        return await handleCabinetUpdate(req, user);
+    }
+
     if (req.method === 'DELETE') {
-        return await handleCabinetDeletion(req);
+        return await handleCabinetDeletion(req, user);
     }
 
     return withCorsHeaders(new Response(JSON.stringify({ error: "Method Not Allowed" }), { status: 405 }));
@@ -1,55 +1,81 @@
 // index.ts (Supabase Edge Function: casimport)
 
 import { serve } from 'std/http/server.ts';
-import { createClient } from '@supabase/supabase-js';
-import { decode } from "std/encoding/base64.ts";
+import { decode } from 'std/encoding/base64.ts';
+import { createCorsHeaders } from '../_shared/cors.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { chunk, fetchAllRows, supabase } from '../_shared/supabaseClient.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { CasCandidate, CasCitation, fetchCasDetail, fetchCasSearch, normalizeCasRn, PropertyRecord, toSubstanceRecords } from '../_shared/casClient.ts';
+import { ADMIN_ONLY, ANY_ROLE, AuthUser, authorize, EDITOR_ROLES } from '../_shared/auth.ts';
+import { createCabinet, deleteCabinet, parseDeletionMode, resolveAreaId } from '../_shared/cabinets.ts';
+import { assertSlotAvailable, fetchCabinetGeometry, SlotCoordinates, validateSlot } from '../_shared/cabinetSlots.ts';
+import { pickPhotoSource, preparePhotoVariants, REAGENT_PHOTO_BUCKET, removePhotos, removeStoredPhotos, replacePhotos, uploadPhotoVariants } from '../_shared/images.ts';
+import { CompatibilityViolation, fetchPlacements, findViolations, parseHazardClasses, resolveHazardClasses } from '../_shared/compatibility.ts';
+import { importCabinetKey, ImportRow, planInventoryImport } from '../_shared/inventoryImport.ts';
+import { requireAmountUnit, requireConcentrationUnit } from '../_shared/units.ts';
 
-interface CasProperty {
-    name: string;
-    property: string;
-    units: string;
+// 프론트엔드에서 보내는 병 한 개의 상세 정보
+interface InventoryDetails {
+    purchase_volume?: number;
+    unit?: string;
+    current_amount?: number;
+    door_vertical?: number;
+    door_horizontal?: number;
+    internal_shelf_level?: number;
+    storage_columns?: number;
+    cabinet_id?: number;
+    classification?: string;
+    state?: string;
+    concentration_value?: number;
+    concentration_unit?: string;
+    manufacturer?: string;
+    purchase_date?: string;
+    // JPEG/PNG/WebP 원본 한 장 (data URL). 320/160 축소본은 서버에서 만듭니다.
+    photo_base64?: string;
+    // 예전 클라이언트 호환용: photo_320_base64는 원본으로 취급하고 photo_160_base64는 무시합니다.
+    photo_320_base64?: string;
+    photo_160_base64?: string;
+    // Substance.hazard_classes 에 저장됩니다. (이미 있는 물질이면 빠진 분류만 더합니다.)
+    hazard_classes?: string[];
 }
 
-interface CasCitation {
-    source: string;
-    url: string;
+interface InventoryItemRequest {
+    casRn: string;
+    inventoryDetails: InventoryDetails;
+    // 같은 병을 다시 보내도 한 번만 등록되도록 하는 키 (없으면 Idempotency-Key 헤더 + 항목 순서)
+    idempotencyKey?: string;
 }
 
-// CORS Origin 설정
-const ALLOWED_ORIGIN = 'https://pogoksci.github.io';
-const corsHeaders = {
-    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    'Access-Control-Allow-Methods': 'POST, GET, DELETE, OPTIONS',
-};
+// register_inventory 함수의 결과 (재전송이면 replayed: true)
+interface RegistrationResult {
+    casRn: string;
+    status: 'success';
+    inventoryId: number;
+    bottleIdentifier: string;
+    isNewSubstance: boolean;
+    warnings: CompatibilityViolation[];
+    replayed: boolean;
+}
 
-// 환경 변수에서 키 가져오기
-const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
-const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const CAS_API_KEY = Deno.env.get('CAS_API_KEY')!;
+type InventoryItemResult =
+    | RegistrationResult
+    | { casRn: string; status: 'error'; error: string; statusCode: number };
 
-// Supabase 클라이언트 초기화
-const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
-    auth: { persistSession: false },
-    global: { headers: { 'Authorization': `Bearer ${SERVICE_ROLE_KEY}` } }
-});
+// CORS 설정
+const corsHeaders = createCorsHeaders('POST, GET, PATCH, DELETE, OPTIONS');
 
 // ------------------------------------------------------------------
 // 헬퍼 함수
 // ------------------------------------------------------------------
 
-async function fetchCasDetail(casRn: string) {
-    const url = `https://commonchemistry.cas.org/api/detail?cas_rn=${casRn}`;
-    const response = await fetch(url, {
-        method: 'GET',
-        headers: { 'X-API-KEY': CAS_API_KEY }
-    });
-    
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`CAS API 호출 실패 (${response.status}): ${errorText.substring(0, 100)}...`);
-    }
-    return response.json();
+function isCasRnLike(input: string): boolean {
+    return /^[\d\s-]+$/.test(input) && /\d/.test(input);
+}
+
+// PostgREST ilike 패턴에서 와일드카드로 해석되는 문자를 이스케이프합니다.
+function escapeLikePattern(input: string): string {
+    return input.replace(/[\\%_]/g, (ch) => `\\${ch}`);
 }
 
 // ------------------------------------------------------------------
@@ -60,159 +86,442 @@ async function handleGetLocationData() {
     const { data: areas, error: areaError } = await supabase.from('Area').select('id, name');
     if (areaError) throw new Error(`Area 조회 오류: ${areaError.message}`);
     
-    const { data: cabinets, error: cabinetError } = await supabase.from('Cabinet').select('id, area_id, name, shelf_height, door_vertical_count, door_horizontal_count, storage_columns');
+    const { data: cabinets, error: cabinetError } = await supabase.from('Cabinet').select('id, area_id, name, shelf_height, door_vertical_count, door_horizontal_count, storage_columns').is('archived_at', null);
     if (cabinetError) throw new Error(`Cabinet 조회 오류: ${cabinetError.message}`);
     
     return new Response(JSON.stringify({ areas, cabinets }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 }
 
-async function handlePostInventory(req: Request) {
-    const { casRns, inventoryDetails } = await req.json();
-    const casRn = casRns[0];
+// 이름 또는 동의어로 CAS RN 후보를 찾습니다. (Synonyms/Substance 테이블 → CAS 검색 API 순서)
+// GET /casimport/search?q=에탄올
+async function handleSearchSubstances(url: URL) {
+    const query = url.searchParams.get('q')?.trim() || '';
+    if (query.length === 0) throw new HttpError(400, '검색어(q)가 필요합니다.');
+
+    // CAS RN 형태로 입력한 경우 이름 검색 대신 번호를 바로 검증합니다.
+    // 등록된 물질이 아니면 CAS 상세 API로 실제 있는 번호인지 확인합니다. (없으면 후보 없음)
+    if (isCasRnLike(query)) {
+        const casRn = normalizeCasRn(query);
+        const { data: substance, error } = await supabase.from('Substance').select('id, name').eq('cas_rn', casRn).maybeSingle();
+        if (error) throw new Error(`DB 조회 오류: ${error.message}`);
+        let candidates: CasCandidate[] = [];
+        if (substance) {
+            candidates = [{ casRn, name: substance.name, source: 'local', substanceId: substance.id }];
+        } else {
+            const detail = await fetchCasDetail(casRn).catch((e) => {
+                if (e instanceof HttpError && e.status === 404) return null;
+                throw e;
+            });
+            if (detail) candidates = [{ casRn, name: detail.name?.replace(/<.+?>/g, '') || null, source: 'cas' }];
+        }
+        return new Response(JSON.stringify({ query, candidates }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    const pattern = `%${escapeLikePattern(query)}%`;
+    const [synonymResult, substanceResult] = await Promise.all([
+        supabase.from('Synonyms').select('substance_id').ilike('name', pattern).limit(50),
+        supabase.from('Substance').select('id').ilike('name', pattern).limit(50),
+    ]);
+    if (synonymResult.error) throw new Error(`Synonyms 조회 오류: ${synonymResult.error.message}`);
+    if (substanceResult.error) throw new Error(`Substance 조회 오류: ${substanceResult.error.message}`);
+
+    const substanceIds = [...new Set([
+        ...substanceResult.data.map((row) => row.id as number),
+        ...synonymResult.data.map((row) => row.substance_id as number),
+    ])];
+
+    let candidates: CasCandidate[] = [];
+    if (substanceIds.length > 0) {
+        const { data: substances, error } = await supabase.from('Substance').select('id, cas_rn, name').in('id', substanceIds).limit(20);
+        if (error) throw new Error(`Substance 조회 오류: ${error.message}`);
+        candidates = substances.map((sub) => ({ casRn: sub.cas_rn, name: sub.name, source: 'local', substanceId: sub.id }));
+    }
+
+    // 등록된 물질 중에 없으면 CAS 검색 API로 후보를 찾습니다.
+    if (candidates.length === 0) {
+        candidates = await fetchCasSearch(query);
+    }
+
+    return new Response(JSON.stringify({ query, candidates }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// 같은 사용자가 같은 키로 이미 등록한 결과가 있으면 돌려줍니다.
+async function findRegistrationReplay(user: AuthUser, idempotencyKey: string): Promise<RegistrationResult | null> {
+    const { data, error } = await supabase
+        .from('RegistrationRequest')
+        .select('response')
+        .eq('user_id', user.id)
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle();
+    if (error) throw new Error(`RegistrationRequest 조회 오류: ${error.message}`);
+    return data ? { ...data.response, replayed: true } : null;
+}
 
-    let substanceId: number;
-    let isNewSubstance = false;
+// register_inventory 함수가 던지는 오류 코드 → HTTP 상태 코드
+const REGISTER_RPC_ERROR_STATUS: Record<string, number> = {
+    '23505': 409, // 동시에 같은 칸을 등록한 경우 (Inventory_slot_unique 인덱스. 같은 물질을 동시에 넣는 경우는 함수 안에서 처리합니다.)
+    '23503': 400, // 존재하지 않는 시약장 등
+    '22P02': 400, // 숫자/날짜 형식 오류
+};
 
-    const { data: existingSubstance, error: checkError } = await supabase.from('Substance').select('id').eq('cas_rn', casRn).single();
+// 병 한 개를 등록합니다. (검증 → 사진 업로드 → register_inventory 트랜잭션)
+async function registerInventoryItem(casRn: string, inventoryDetails: InventoryDetails, user: AuthUser, idempotencyKey: string | null): Promise<RegistrationResult> {
+    // 재전송된 요청이면 처음 결과를 그대로 돌려줍니다.
+    if (idempotencyKey) {
+        const replay = await findRegistrationReplay(user, idempotencyKey);
+        if (replay) return replay;
+    }
+
+    // 단위는 CAS 조회 전에 검증해서 잘못된 요청으로 Substance가 만들어지지 않게 합니다.
+    const amountUnit = requireAmountUnit(inventoryDetails.unit);
+    const hasConcentration = inventoryDetails.concentration_value != null && String(inventoryDetails.concentration_value) !== '';
+    const concentrationUnit = hasConcentration || inventoryDetails.concentration_unit
+        ? requireConcentrationUnit(inventoryDetails.concentration_unit)
+        : null;
+    const requestedHazardClasses = parseHazardClasses(inventoryDetails.hazard_classes);
+    const photoSource = pickPhotoSource(inventoryDetails);
+    const photoVariants = photoSource ? await preparePhotoVariants(photoSource) : null;
+
+    // 시약장을 지정한 경우 칸 좌표가 시약장 크기 안에 있고 비어 있는지 확인합니다.
+    let slot: SlotCoordinates | null = null;
+    if (inventoryDetails.cabinet_id) {
+        const cabinet = await fetchCabinetGeometry(Number(inventoryDetails.cabinet_id));
+        slot = validateSlot(cabinet, {
+            door_vertical: inventoryDetails.door_vertical,
+            door_horizontal: inventoryDetails.door_horizontal,
+            internal_shelf_level: inventoryDetails.internal_shelf_level,
+            storage_column: inventoryDetails.storage_columns,
+        });
+        await assertSlotAvailable(cabinet.id, slot);
+    }
+
+    const { data: existingSubstance, error: checkError } = await supabase.from('Substance').select('id, hazard_classes').eq('cas_rn', casRn).single();
     if (checkError && checkError.code !== 'PGRST116') throw new Error(`DB 조회 오류: ${checkError.message}`);
 
-    if (existingSubstance) {
-        substanceId = existingSubstance.id;
-    } else {
-        isNewSubstance = true;
-        const fullData = await fetchCasDetail(casRn);
-        
-        const substanceData = {
-            cas_rn: fullData.rn || casRn, name: fullData.name || null, uri: fullData.uri || null,
-            inchikey: fullData.inchiKey || null, molecular_formula: fullData.molecularFormula?.replace(/<.+?>/g, '') || null,
-            molecular_mass: fullData.molecularMass ? parseFloat(fullData.molecularMass) : null,
-            has_molfile: fullData.hasMolfile || false, svg_image: fullData.images?.[0] || null,
+    // 물질에 저장된 분류와 요청의 분류를 합쳐서 판정합니다. (hazard_classes는 기본값이 '{}'라 null이 아닙니다.)
+    const hazardClasses = [...new Set([...(existingSubstance?.hazard_classes ?? []), ...requestedHazardClasses])];
+
+    // 같은 시약장/선반에 함께 두면 안 되는 병이 있는지 확인합니다. ('reject' 규칙은 등록 거부, 'warn' 규칙은 경고만 반환)
+    let warnings: CompatibilityViolation[] = [];
+    if (inventoryDetails.cabinet_id && slot) {
+        const candidate = {
+            inventoryId: null,
+            label: casRn,
+            cabinetId: Number(inventoryDetails.cabinet_id),
+            doorVertical: slot.door_vertical,
+            doorHorizontal: slot.door_horizontal,
+            shelfLevel: slot.internal_shelf_level,
+            hazardClasses: resolveHazardClasses(inventoryDetails.classification, hazardClasses),
         };
-        const { data: subInsert, error: subError } = await supabase.from('Substance').insert([substanceData]).select('id').single();
-        if (subError) throw new Error(`Substance 삽입 오류: ${subError.message}`);
-        substanceId = subInsert.id;
-
-        const auxiliaryInsertions = [];
-        const substanceFk = { substance_id: substanceId };
-        if (fullData.synonyms && Array.isArray(fullData.synonyms)) {
-            auxiliaryInsertions.push(supabase.from('Synonyms').insert(fullData.synonyms.map((s: string) => ({ ...substanceFk, name: s }))));
+        const violations = findViolations(candidate, await fetchPlacements([candidate.cabinetId]));
+        const rejections = violations.filter((v) => v.severity === 'reject');
+        if (rejections.length > 0) {
+            throw new HttpError(409, `보관 불가: ${rejections.map((v) => `${v.reason} (${v.neighborLabel})`).join(' / ')}`);
         }
-        // Experimental Properties 삽입
-        if (fullData.experimentalProperties && Array.isArray(fullData.experimentalProperties)) {
-            auxiliaryInsertions.push(
-                supabase.from('Properties').insert(
-                    fullData.experimentalProperties.map((p: CasProperty) => ({ // ⬅️ [수정됨]
-                        ...substanceFk, name: p.name, property: p.property,
-                        units: p.units, type: 'experimental'
-                    }))
-                )
-            );
+        warnings = violations;
+    }
+
+    // 새 물질이면 CAS 상세 정보를 받아 함께 넘깁니다. (Synonyms/Properties/Citations 포함)
+    let substanceData = null;
+    let synonyms: string[] = [];
+    let properties: PropertyRecord[] = [];
+    let citations: CasCitation[] = [];
+    if (!existingSubstance) {
+        const records = toSubstanceRecords(await fetchCasDetail(casRn));
+        substanceData = { ...records.substance, hazard_classes: requestedHazardClasses };
+        ({ synonyms, properties, citations } = records);
+    }
+
+    const bottleIdentifier = `${casRn}-${crypto.randomUUID()}`;
+    // 사진을 먼저 올려 두고, DB 등록이 실패하면 지웁니다. (사진 없는 병이 생기지 않도록)
+    const photos = photoVariants ? await uploadPhotoVariants(REAGENT_PHOTO_BUCKET, bottleIdentifier, photoVariants) : null;
+    const uploadedPaths = photos?.paths ?? [];
+
+    const { data: result, error: rpcError } = await supabase.rpc('register_inventory', {
+        p_cas_rn: casRn,
+        p_inventory: {
+            bottle_identifier: bottleIdentifier,
+            initial_amount: inventoryDetails.purchase_volume,
+            unit: amountUnit.symbol,
+            current_amount: inventoryDetails.current_amount,
+            door_vertical: slot?.door_vertical ?? null,
+            door_horizontal: slot?.door_horizontal ?? null,
+            internal_shelf_level: slot?.internal_shelf_level ?? null,
+            storage_column: slot?.storage_column ?? null,
+            cabinet_id: inventoryDetails.cabinet_id ?? null,
+            classification: inventoryDetails.classification,
+            state: inventoryDetails.state,
+            concentration_value: hasConcentration ? inventoryDetails.concentration_value : null,
+            concentration_unit: concentrationUnit,
+            manufacturer: inventoryDetails.manufacturer,
+            purchase_date: inventoryDetails.purchase_date,
+            photo_url_320: photos?.urls.photo_url_320 ?? null,
+            photo_url_160: photos?.urls.photo_url_160 ?? null,
+        },
+        p_substance: substanceData,
+        p_synonyms: synonyms,
+        p_properties: properties,
+        p_citations: citations,
+        p_warnings: warnings,
+        p_actor_id: user.id,
+        p_actor_email: user.email,
+        p_actor_role: user.role,
+        p_idempotency_key: idempotencyKey,
+        p_hazard_classes: requestedHazardClasses,
+    });
+
+    if (rpcError) {
+        await removePhotos(REAGENT_PHOTO_BUCKET, uploadedPaths);
+        throw new HttpError(REGISTER_RPC_ERROR_STATUS[rpcError.code] ?? 500, `병 등록 오류: ${rpcError.message}`);
+    }
+    // 같은 키의 요청이 동시에 처리되어 먼저 끝난 결과를 받은 경우, 이번에 올린 사진은 쓰이지 않습니다.
+    if (result.replayed) await removePhotos(REAGENT_PHOTO_BUCKET, uploadedPaths);
+
+    return result;
+}
+
+// 여러 병을 한 번에 등록합니다. 한 항목이 실패해도 나머지는 계속 처리합니다.
+// 요청 형식: { items: [{ casRn, inventoryDetails, idempotencyKey? }, ...] }
+// (이전 형식 { casRns, inventoryDetails } 도 계속 받습니다.)
+// Idempotency-Key 헤더를 보내면 같은 요청을 다시 보내도 처음 결과가 돌아옵니다.
+async function handlePostInventory(req: Request, user: AuthUser) {
+    const body = await req.json();
+    const items: InventoryItemRequest[] = Array.isArray(body?.items)
+        ? body.items
+        : Array.isArray(body?.casRns)
+            ? body.casRns.map((casRn: string) => ({ casRn, inventoryDetails: body.inventoryDetails }))
+            : [];
+
+    if (items.length === 0) throw new HttpError(400, '등록할 항목(items)이 없습니다.');
+    const requestKey = req.headers.get('Idempotency-Key')?.trim() || null;
+
+    // 같은 CAS RN이 배치 안에 여러 번 있을 수 있으므로 Substance 중복 삽입을 피하기 위해 순서대로 처리합니다.
+    const responsePayload: InventoryItemResult[] = [];
+    for (const [index, item] of items.entries()) {
+        const idempotencyKey = item?.idempotencyKey?.trim() || (requestKey ? `${requestKey}:${index}` : null);
+        let casRn = typeof item?.casRn === 'string' ? item.casRn.trim() : '';
+        try {
+            if (!casRn) throw new HttpError(400, 'CAS RN이 누락되었습니다.');
+            if (!item.inventoryDetails) throw new HttpError(400, 'inventoryDetails가 누락되었습니다.');
+            casRn = normalizeCasRn(casRn);
+            responsePayload.push(await registerInventoryItem(casRn, item.inventoryDetails, user, idempotencyKey));
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            const statusCode = e instanceof HttpError ? e.status : 500;
+            console.error(`병 등록 오류 (${casRn || '알 수 없음'}):`, errorMessage);
+            responsePayload.push({ casRn, status: 'error', error: errorMessage, statusCode });
         }
-        // Predicted Properties 삽입
-        if (fullData.predictedProperties && Array.isArray(fullData.predictedProperties)) {
-            auxiliaryInsertions.push(
-                supabase.from('Properties').insert(
-                    fullData.predictedProperties.map((p: CasProperty) => ({ // ⬅️ [수정됨]
-                        ...substanceFk, name: p.name, property: p.property,
-                        units: p.units, type: 'predicted'
-                    }))
-                )
-            );
+    }
+
+    return new Response(JSON.stringify(responsePayload), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// 가져오기 요청(JSON 또는 multipart/form-data)에서 파일과 옵션을 꺼냅니다.
+async function readImportRequest(req: Request) {
+    const contentType = req.headers.get('Content-Type') || '';
+    let bytes: Uint8Array;
+    let fileName: string | null = null;
+    let options: Record<string, unknown>;
+
+    if (contentType.includes('multipart/form-data')) {
+        // 폼 필드: file(파일), options(JSON 문자열)
+        const form = await req.formData();
+        const file = form.get('file');
+        if (!(file instanceof File)) throw new HttpError(400, '가져올 파일(file)이 필요합니다.');
+        bytes = new Uint8Array(await file.arrayBuffer());
+        fileName = file.name || null;
+        const rawOptions = form.get('options');
+        try {
+            options = typeof rawOptions === 'string' && rawOptions.trim() ? JSON.parse(rawOptions) : {};
+        } catch {
+            throw new HttpError(400, 'options 값이 올바른 JSON이 아닙니다.');
         }
-        // Citations 삽입
-        if (fullData.citations && Array.isArray(fullData.citations)) {
-            auxiliaryInsertions.push(
-                supabase.from('Citations').insert(
-                    fullData.citations.map((c: CasCitation) => ({ // ⬅️ [수정됨]
-                        ...substanceFk, source: c.source, url: c.url
-                    }))
-                )
-            );
+    } else {
+        options = await req.json();
+        const fileData = options?.file_base64;
+        if (typeof fileData !== 'string' || fileData.length === 0) throw new HttpError(400, '가져올 파일(file_base64)이 필요합니다.');
+        try {
+            bytes = decode(fileData.replace(/^data:[^,]*,/, ''));
+        } catch {
+            throw new HttpError(400, 'file_base64 값의 base64 인코딩이 올바르지 않습니다.');
         }
+        fileName = typeof options.file_name === 'string' ? options.file_name : null;
+    }
 
-        const results = await Promise.all(auxiliaryInsertions);
-        for (const result of results) {
-            if (result.error) console.error('보조 테이블 삽입 중 오류:', result.error.message);
-        }
+    const columnMap = options?.column_map ?? {};
+    if (typeof columnMap !== 'object' || Array.isArray(columnMap)) throw new HttpError(400, 'column_map은 { "머리글": "필드" } 형식이어야 합니다.');
+
+    return {
+        bytes,
+        fileName,
+        sheetName: typeof options.sheet === 'string' ? options.sheet : null,
+        columnMap: columnMap as Record<string, string>,
+        createMissingCabinets: options.create_missing_cabinets === true,
+        dryRun: options.dry_run === true,
+        skipInvalid: options.skip_invalid === true,
+    };
+}
+
+function previewImportRow(row: ImportRow, existingCasRns: Set<string>) {
+    return {
+        row: row.rowNumber,
+        casRn: row.casRn,
+        areaName: row.areaName,
+        cabinetName: row.cabinetName,
+        createsCabinet: row.createsCabinet,
+        isNewSubstance: row.casRn ? !existingCasRns.has(row.casRn) : null,
+        inventoryDetails: row.inventoryDetails,
+        status: row.errors.length > 0 ? 'invalid' : 'valid',
+        errors: row.errors,
+    };
+}
+
+// 같은 Idempotency-Key로 앞서 보낸 가져오기 요청의 기록을 찾습니다.
+// 모든 행을 끝낸 요청은 `${key}:import`에 전체 응답이, 행마다 `${key}:import:${행 번호}`에 등록 결과가 남습니다.
+async function findImportReplay(user: AuthUser, requestKey: string) {
+    const data = await fetchAllRows('RegistrationRequest', (from, to) => supabase
+        .from('RegistrationRequest')
+        .select('idempotency_key, inventory_id, response')
+        .eq('user_id', user.id)
+        .like('idempotency_key', `${escapeLikePattern(requestKey)}:import%`)
+        .order('idempotency_key')
+        .range(from, to));
+    const completed = data.find((request) => request.idempotency_key === `${requestKey}:import`);
+    return {
+        response: completed ? { ...completed.response, replayed: true } : null,
+        inventoryIds: new Set(data.map((request) => request.inventory_id as number | null).filter((id): id is number => id !== null)),
+    };
+}
+
+// 엑셀/CSV 파일로 재고를 한꺼번에 등록합니다.
+// 요청 형식: POST /casimport/import
+//   JSON: { file_base64, file_name?, sheet?, column_map?, create_missing_cabinets?, dry_run?, skip_invalid? }
+//   multipart/form-data: file + options(위 JSON에서 file_base64를 뺀 것)
+// dry_run이면 행별 검증 결과만 돌려주고 아무것도 저장하지 않습니다.
+// 잘못된 행이 있으면 skip_invalid가 아닌 한 아무것도 저장하지 않고 422를 돌려줍니다.
+async function handleInventoryImport(req: Request, user: AuthUser) {
+    const request = await readImportRequest(req);
+    const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+    // 같은 Idempotency-Key로 다시 보내면 끝난 요청은 처음 응답을, 중간에 멈춘 요청은 남은 행만 등록합니다.
+    // 앞서 등록된 병이 차지한 칸은 검증에서 빼야 해당 행이 '이미 사용 중인 칸'이 되지 않고 처음 결과로 돌아옵니다.
+    const requestKey = req.headers.get('Idempotency-Key')?.trim() || null;
+    const previous = requestKey ? await findImportReplay(user, requestKey) : null;
+    if (previous?.response && !request.dryRun) return new Response(JSON.stringify(previous.response), { status: 200, headers: jsonHeaders });
+
+    const plan = await planInventoryImport(request.bytes, request, previous?.inventoryIds);
+
+    const casRns = [...new Set(plan.rows.map((row) => row.casRn).filter(Boolean))];
+    const existingCasRns = new Set<string>();
+    for (const chunkCasRns of chunk(casRns)) {
+        const { data: substances, error: substanceError } = await supabase.from('Substance').select('cas_rn').in('cas_rn', chunkCasRns);
+        if (substanceError) throw new Error(`Substance 조회 오류: ${substanceError.message}`);
+        for (const substance of substances) existingCasRns.add(substance.cas_rn as string);
     }
 
-    const { data: invInsert, error: invError } = await supabase.from('Inventory').insert([{
-        substance_id: substanceId,
-        bottle_identifier: `${casRn}-${crypto.randomUUID()}`,
-        initial_amount: inventoryDetails.purchase_volume,
-        unit: inventoryDetails.unit,
-        current_amount: inventoryDetails.current_amount,
-        door_vertical: inventoryDetails.door_vertical,
-        door_horizontal: inventoryDetails.door_horizontal,
-        internal_shelf_level: inventoryDetails.internal_shelf_level,
-        storage_column: inventoryDetails.storage_columns,
-        cabinet_id: inventoryDetails.cabinet_id,
-        classification: inventoryDetails.classification,
-        state: inventoryDetails.state,
-        concentration_value: inventoryDetails.concentration_value,
-        concentration_unit: inventoryDetails.concentration_unit,
-        manufacturer: inventoryDetails.manufacturer,
-        purchase_date: inventoryDetails.purchase_date,
-    }]).select('id').single();
-    if (invError) throw new Error(`Inventory 삽입 오류: ${invError.message}`);
-    const inventoryId = invInsert.id;
-    
-    const photoUrls: { url_320: string | null; url_160: string | null } = { url_320: null, url_160: null };
-    const uploadPromises = [];
-    if (inventoryDetails.photo_320_base64) {
-        const path_320 = `${inventoryId}_${casRn}_320.png`;
-        const imageData320 = decode(inventoryDetails.photo_320_base64.split(',')[1]);
-        uploadPromises.push(supabase.storage.from('reagent-photos').upload(path_320, imageData320, { contentType: 'image/png', upsert: true }));
-    }
-    if (inventoryDetails.photo_160_base64) {
-        const path_160 = `${inventoryId}_${casRn}_160.png`;
-        const imageData160 = decode(inventoryDetails.photo_160_base64.split(',')[1]);
-        uploadPromises.push(supabase.storage.from('reagent-photos').upload(path_160, imageData160, { contentType: 'image/png', upsert: true }));
-    }
-
-    const uploadResults = await Promise.all(uploadPromises);
-    for (const result of uploadResults) {
-        if (result.error) console.error("Storage 업로드 오류:", result.error.message);
-        if (!result.data) continue;
-        if (result.data.path.includes('_320.png')) {
-            photoUrls.url_320 = supabase.storage.from('reagent-photos').getPublicUrl(result.data.path).data.publicUrl;
-        }
-        if (result.data.path.includes('_160.png')) {
-            photoUrls.url_160 = supabase.storage.from('reagent-photos').getPublicUrl(result.data.path).data.publicUrl;
+    const validRows = plan.rows.filter((row) => row.errors.length === 0);
+    const preview = {
+        dryRun: request.dryRun,
+        summary: { total: plan.rows.length, valid: validRows.length, invalid: plan.rows.length - validRows.length },
+        mappedColumns: plan.mappedColumns,
+        ignoredColumns: plan.ignoredColumns,
+        cabinetsToCreate: plan.cabinetsToCreate,
+        rows: plan.rows.map((row) => previewImportRow(row, existingCasRns)),
+    };
+
+    if (request.dryRun) return new Response(JSON.stringify(preview), { status: 200, headers: jsonHeaders });
+    if (validRows.length < plan.rows.length && !request.skipInvalid) {
+        return new Response(JSON.stringify({ error: `잘못된 행이 ${preview.summary.invalid}개 있어 가져오지 않았습니다. (skip_invalid로 잘못된 행만 건너뛸 수 있습니다.)`, ...preview }), { status: 422, headers: jsonHeaders });
+    }
+
+    // 필요한 시약장을 먼저 만듭니다. (약품실도 없으면 시약장 등록과 같은 방식으로 만듭니다.)
+    const createdCabinetIds = new Map<string, number>();
+    for (const planned of plan.cabinetsToCreate) {
+        const key = importCabinetKey(planned.areaName, planned.cabinetName);
+        if (!validRows.some((row) => row.createsCabinet && importCabinetKey(row.areaName!, row.cabinetName!) === key)) continue;
+        planned.areaId = await resolveAreaId(planned.areaName, user);
+        planned.cabinetId = (await createCabinet(planned.areaId, planned.cabinetName, planned.dimensions, user)).id;
+        createdCabinetIds.set(key, planned.cabinetId!);
+    }
+
+    // 같은 Idempotency-Key로 다시 보내면 이미 등록된 행은 처음 결과를 그대로 돌려줍니다.
+    const results = [];
+    for (const row of validRows) {
+        if (row.createsCabinet) row.inventoryDetails.cabinet_id = createdCabinetIds.get(importCabinetKey(row.areaName!, row.cabinetName!));
+        try {
+            const result = await registerInventoryItem(row.casRn, row.inventoryDetails, user, requestKey ? `${requestKey}:import:${row.rowNumber}` : null);
+            results.push({ row: row.rowNumber, ...result });
+        } catch (e) {
+            const errorMessage = getErrorMessage(e);
+            console.error(`가져오기 오류 (${row.rowNumber}행, ${row.casRn}):`, errorMessage);
+            results.push({ row: row.rowNumber, casRn: row.casRn, status: 'error', error: errorMessage, statusCode: getErrorStatus(e) });
         }
     }
 
-    if (photoUrls.url_320 || photoUrls.url_160) {
-        const { error: updateError } = await supabase.from('Inventory').update({ photo_url_320: photoUrls.url_320, photo_url_160: photoUrls.url_160 }).eq('id', inventoryId);
-        if (updateError) console.error("사진 URL 업데이트 오류:", updateError.message);
+    const response = {
+        dryRun: false,
+        summary: {
+            total: plan.rows.length,
+            imported: results.filter((result) => result.status === 'success').length,
+            failed: results.filter((result) => result.status === 'error').length,
+            skipped: plan.rows.length - validRows.length,
+        },
+        cabinetsCreated: plan.cabinetsToCreate.filter((planned) => planned.cabinetId !== null),
+        skippedRows: preview.rows.filter((row) => row.status === 'invalid'),
+        results,
+    };
+
+    // 실패한 행이 없을 때만 전체 응답을 남깁니다. (실패한 행이 있으면 다시 보냈을 때 그 행만 다시 시도합니다.)
+    if (requestKey && response.summary.failed === 0) {
+        const { error } = await supabase
+            .from('RegistrationRequest')
+            .upsert({ user_id: user.id, idempotency_key: `${requestKey}:import`, response }, { onConflict: 'user_id,idempotency_key', ignoreDuplicates: true });
+        if (error) console.error('가져오기 응답 기록 오류:', error.message);
     }
-    
-    const responsePayload = [{ casRn, status: 'success', inventoryId, isNewSubstance }];
-    return new Response(JSON.stringify(responsePayload), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+    return new Response(JSON.stringify(response), { status: 200, headers: jsonHeaders });
 }
 
-async function handleCabinetDeletion(req: Request) {
-    const url = new URL(req.url);
-    const cabinetId = url.searchParams.get('id');
-    if (!cabinetId) throw new Error('삭제할 캐비닛 ID가 필요합니다.');
-    
-    const { data: cabinetToDelete, error: selectError } = await supabase.from('Cabinet').select('area_id').eq('id', cabinetId).single();
-    if (selectError || !cabinetToDelete) throw new Error(`삭제할 캐비닛(ID: ${cabinetId})을 찾을 수 없습니다: ${selectError?.message || ''}`);
-    const { area_id } = cabinetToDelete;
+// 병 사진을 교체하거나 지웁니다.
+// 요청 형식: PATCH /casimport/photo { inventory_id, photo_base64 } (photo_base64가 null이면 삭제)
+async function handleBottlePhotoUpdate(req: Request, user: AuthUser) {
+    const body = await req.json();
+    const inventoryId = Number(body?.inventory_id);
+    if (!Number.isInteger(inventoryId) || inventoryId <= 0) throw new HttpError(400, '사진을 바꿀 재고 ID(inventory_id)가 필요합니다.');
 
-    const { error: deleteError } = await supabase.from('Cabinet').delete().eq('id', cabinetId);
-    if (deleteError) throw new Error(`DB 삭제 오류: ${deleteError.message}`);
+    const source = pickPhotoSource(body ?? {});
+    if (source === undefined) throw new HttpError(400, 'photo_base64 값이 필요합니다. (삭제하려면 null)');
+    const photoVariants = source === null ? null : await preparePhotoVariants(source);
 
-    const { count, error: countError } = await supabase.from('Cabinet').select('*', { count: 'exact', head: true }).eq('area_id', area_id);
-    if (countError) console.error(`캐비닛 개수 확인 중 오류: ${countError.message}`);
+    const { data: bottle, error: selectError } = await supabase.from('Inventory').select('*').eq('id', inventoryId).maybeSingle();
+    if (selectError) throw new Error(`Inventory 조회 오류: ${selectError.message}`);
+    if (!bottle) throw new HttpError(404, `재고(ID: ${inventoryId})를 찾을 수 없습니다.`);
 
-    if (count === 0) {
-        console.log(`Area (ID: ${area_id})에 남은 캐비닛이 없어 Area를 삭제합니다.`);
-        const { error: areaDeleteError } = await supabase.from('Area').delete().eq('id', area_id);
-        if (areaDeleteError) console.error(`Area (ID: ${area_id}) 삭제 중 오류 발생: ${areaDeleteError.message}`);
+    let photoUpdate = { photo_url_320: null as string | null, photo_url_160: null as string | null };
+    if (photoVariants) {
+        photoUpdate = (await replacePhotos(REAGENT_PHOTO_BUCKET, bottle.bottle_identifier, photoVariants, bottle)).urls;
+    } else {
+        await removeStoredPhotos(REAGENT_PHOTO_BUCKET, bottle);
     }
-    
-    return new Response(JSON.stringify({ message: `ID ${cabinetId} 캐비닛이 삭제되었습니다.` }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+    const { data: updated, error: updateError } = await supabase.from('Inventory').update(photoUpdate).eq('id', inventoryId).select().single();
+    if (updateError) throw new Error(`사진 URL 업데이트 오류: ${updateError.message}`);
+    await recordAudit(user, { action: 'update', table: 'Inventory', rowId: inventoryId, before: bottle, after: updated });
+
+    return new Response(JSON.stringify({ inventoryId, ...photoUpdate }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// 시약장 삭제는 cabinet-register와 같은 규칙(_shared/cabinets.ts)을 따릅니다.
+async function handleCabinetDeletion(req: Request, user: AuthUser) {
+    const url = new URL(req.url);
+    const cabinetId = url.searchParams.get('id');
+    if (!cabinetId) throw new HttpError(400, '삭제할 캐비닛 ID가 필요합니다.');
+
+    const mode = parseDeletionMode(url.searchParams.get('mode'));
+    const targetId = url.searchParams.get('target_id');
+    const result = await deleteCabinet(Number(cabinetId), mode, targetId ? Number(targetId) : null, user);
+
+    return new Response(JSON.stringify({ message: `ID ${cabinetId} 캐비닛이 ${mode === 'archive' ? '보관 처리' : '삭제'}되었습니다.`, ...result }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 }
 
 // ------------------------------------------------------------------
@@ -225,19 +534,35 @@ serve(async (req: Request) => {
     }
 
     try {
+        // 조회는 모든 사용자, 등록/사진 변경은 staff 이상, 시약장 삭제는 admin만 가능합니다.
         if (req.method === 'GET') {
+            await authorize(req, ANY_ROLE);
+            const url = new URL(req.url);
+            if (url.pathname.endsWith('/search')) {
+                return await handleSearchSubstances(url);
+            }
             return await handleGetLocationData();
         }
         if (req.method === 'POST') {
-            return await handlePostInventory(req);
+            const user = await authorize(req, EDITOR_ROLES);
+            if (new URL(req.url).pathname.endsWith('/import')) {
+                return await handleInventoryImport(req, user);
+            }
+            return await handlePostInventory(req, user);
+        }
+        if (req.method === 'PATCH' && new URL(req.url).pathname.endsWith('/photo')) {
+            const user = await authorize(req, EDITOR_ROLES);
+            return await handleBottlePhotoUpdate(req, user);
         }
         if (req.method === 'DELETE') {
-            return await handleCabinetDeletion(req);
+            const user = await authorize(req, ADMIN_ONLY);
+            return await handleCabinetDeletion(req, user);
         }
         return new Response(JSON.stringify({ error: "Method Not Allowed" }), { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     } catch (e) {
         const errorMessage = e instanceof Error ? e.message : String(e);
+        const status = e instanceof HttpError ? e.status : 500;
         console.error('Main Handler Fatal Error:', errorMessage);
-        return new Response(JSON.stringify({ error: errorMessage }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+        return new Response(JSON.stringify({ error: errorMessage }), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 });
\ No newline at end of file
@@ -0,0 +1,326 @@
+// index.ts (Edge Function: chemical-search)
+//
+// "수산화나트륨은 어디에 있나요?" 같은 질문에 답하는 검색입니다.
+//   GET /chemical-search?q=&area_id=&cabinet_id=&classification=&state=&page=&page_size=
+// 물질 이름, 동의어(Synonyms), CAS RN, 분자식, InChIKey 에서 찾고, 찾은 물질의 병마다 위치와 잔량을 돌려줍니다.
+
+import { serve } from 'std/http/server.ts';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { ANY_ROLE, authorize } from '../_shared/auth.ts';
+import { formatSlotLabel } from '../_shared/cabinetSlots.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { fetchAllRows, supabase } from '../_shared/supabaseClient.ts';
+
+const corsHeaders = createCorsHeaders('GET, OPTIONS');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 100;
+// 검색어 하나로 찾는 물질 수 상한 (이보다 많으면 검색어를 더 구체적으로 입력해야 합니다.)
+const MAX_MATCHED_SUBSTANCES = 200;
+const MAX_UNSTOCKED_SUBSTANCES = 20;
+const UNASSIGNED_AREA = '위치 미지정';
+
+type MatchField = 'name' | 'synonym' | 'cas_rn' | 'molecular_formula' | 'inchikey';
+
+interface SearchFilters {
+    areaId: number | null;
+    cabinetId: number | null;
+    classifications: string[];
+    states: string[];
+}
+
+interface SubstanceMatch {
+    id: number;
+    casRn: string;
+    name: string;
+    formula: string | null;
+    field: MatchField;
+    value: string;
+    score: number;
+}
+
+interface SearchResult {
+    inventoryId: number;
+    bottleIdentifier: string | null;
+    substance: { id: number; casRn: string; name: string; formula: string | null };
+    match: { field: MatchField; value: string };
+    location: { areaId: number | null; areaName: string; cabinetId: number | null; cabinetName: string | null; cabinetArchived: boolean; slot: string };
+    currentAmount: number | null;
+    initialAmount: number | null;
+    unit: string | null;
+    remainingRatio: number | null;
+    classification: string | null;
+    state: string | null;
+}
+
+// ------------------------------------------------------------------
+// 요청 해석
+// ------------------------------------------------------------------
+
+function parseIdParam(url: URL, name: string): number | null {
+    const raw = url.searchParams.get(name);
+    if (raw === null) return null;
+    const id = Number(raw);
+    if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw}'`);
+    return id;
+}
+
+// ?state=액체&state=고체 또는 ?state=액체,고체 모두 받습니다.
+function parseListParam(url: URL, name: string): string[] {
+    return url.searchParams.getAll(name).flatMap((value) => value.split(',')).map((value) => value.trim()).filter((value) => value.length > 0);
+}
+
+function parsePositiveInt(url: URL, name: string, fallback: number, max: number): number {
+    const raw = url.searchParams.get(name);
+    if (raw === null || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1 || value > max) throw new HttpError(400, `${name}는 1~${max} 사이의 정수여야 합니다: '${raw}'`);
+    return value;
+}
+
+// ------------------------------------------------------------------
+// 검색어 처리
+// ------------------------------------------------------------------
+
+function escapeLikePattern(input: string): string {
+    return input.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+// 띄어쓰기·하이픈·괄호 등을 무시하고 비교합니다. ("Sodium-hydroxide" = "sodium hydroxide", "수산화 나트륨" = "수산화나트륨")
+function normalizeSearchText(text: string): string {
+    return text.toLowerCase().replace(/[\s\-_,.·()[\]]+/g, '');
+}
+
+// 이름/동의어 검색용 패턴: 구분 문자는 아무 글자나 올 수 있게 하고,
+// 한글은 띄어쓰기가 제각각이므로 글자 사이마다 빈칸을 허용합니다.
+function flexibleLikePattern(query: string): string {
+    const tokens = query.split(/[\s\-_,.·()[\]]+/).filter((token) => token.length > 0);
+    const parts = tokens.map((token) => /[가-힣]/.test(token) ? [...token].map(escapeLikePattern).join('%') : escapeLikePattern(token));
+    return `%${parts.join('%')}%`;
+}
+
+// "NaOH", "C2H5OH" 처럼 입력한 화학식을 CAS가 쓰는 Hill 표기("HNaO", "C2H6O")로 바꿉니다. 화학식이 아니면 null
+function toHillFormula(input: string): string | null {
+    const compact = input.replace(/\s+/g, '');
+    if (!/^([A-Z][a-z]?\d*)+$/.test(compact)) return null;
+
+    const counts = new Map<string, number>();
+    for (const [, element, count] of compact.matchAll(/([A-Z][a-z]?)(\d*)/g)) {
+        counts.set(element, (counts.get(element) ?? 0) + (count ? Number(count) : 1));
+    }
+    // 탄소가 있으면 C, H를 먼저 쓰고 나머지는 알파벳 순서, 없으면 모두 알파벳 순서입니다.
+    const elements = [...counts.keys()].sort();
+    const ordered = counts.has('C') ? ['C', ...(counts.has('H') ? ['H'] : []), ...elements.filter((e) => e !== 'C' && e !== 'H')] : elements;
+    return ordered.map((element) => `${element}${counts.get(element) === 1 ? '' : counts.get(element)}`).join('');
+}
+
+// 일치 정도 점수: 완전 일치 > 앞부분 일치 > 부분 일치 (띄어쓰기 등은 무시합니다.)
+// DB에서 느슨하게(한글 글자 사이 빈칸 허용) 찾은 값은 looseMatch로 1점을 줍니다.
+function matchScore(value: string | null | undefined, normalizedQuery: string, looseMatch = false): number {
+    if (!value) return 0;
+    const normalized = normalizeSearchText(value);
+    if (normalized === normalizedQuery) return 4;
+    if (normalized.startsWith(normalizedQuery)) return 3;
+    if (normalized.includes(normalizedQuery)) return 2;
+    return looseMatch ? 1 : 0;
+}
+
+// ------------------------------------------------------------------
+// 물질 찾기
+// ------------------------------------------------------------------
+
+async function findSubstances(query: string): Promise<SubstanceMatch[]> {
+    const namePattern = flexibleLikePattern(query);
+    const hillFormula = toHillFormula(query);
+    const compact = query.replace(/\s+/g, '');
+    const looksLikeCas = /^[\d-]+$/.test(compact) && /\d/.test(compact);
+    const looksLikeInchikey = /^[A-Za-z]{4,}(-[A-Za-z]*){0,2}$/.test(compact);
+
+    const searches = [
+        supabase.from('Substance').select('id').ilike('name', namePattern).limit(MAX_MATCHED_SUBSTANCES),
+        supabase.from('Synonyms').select('substance_id, name').ilike('name', namePattern).limit(MAX_MATCHED_SUBSTANCES),
+        looksLikeCas ? supabase.from('Substance').select('id').ilike('cas_rn', `%${escapeLikePattern(compact)}%`).limit(MAX_MATCHED_SUBSTANCES) : null,
+        // 화학식은 입력한 그대로의 앞부분 일치와 Hill 표기 완전 일치를 함께 찾습니다.
+        hillFormula ? supabase.from('Substance').select('id').or(`molecular_formula.ilike.${compact}*,molecular_formula.eq.${hillFormula}`).limit(MAX_MATCHED_SUBSTANCES) : null,
+        looksLikeInchikey ? supabase.from('Substance').select('id').ilike('inchikey', `${escapeLikePattern(compact.toUpperCase())}%`).limit(MAX_MATCHED_SUBSTANCES) : null,
+    ];
+    const results = await Promise.all(searches.map((search) => search ?? Promise.resolve({ data: [], error: null })));
+    for (const result of results) {
+        if (result.error) throw new Error(`물질 검색 오류: ${result.error.message}`);
+    }
+
+    const nameMatchedIds = new Set(((results[0].data ?? []) as { id: number }[]).map((row) => row.id));
+    const matchedSynonyms = new Map<number, string[]>();
+    for (const row of (results[1].data ?? []) as { substance_id: number; name: string }[]) {
+        matchedSynonyms.set(row.substance_id, [...(matchedSynonyms.get(row.substance_id) ?? []), row.name]);
+    }
+    const substanceIds = [...new Set([
+        ...results.filter((_, index) => index !== 1).flatMap((result) => (result.data ?? []) as { id: number }[]).map((row) => row.id),
+        ...matchedSynonyms.keys(),
+    ])].slice(0, MAX_MATCHED_SUBSTANCES);
+    if (substanceIds.length === 0) return [];
+
+    const { data: substances, error } = await supabase.from('Substance').select('id, cas_rn, name, molecular_formula, inchikey').in('id', substanceIds);
+    if (error) throw new Error(`Substance 조회 오류: ${error.message}`);
+
+    // 물질마다 가장 잘 맞은 항목을 골라 점수를 매깁니다.
+    const normalizedQuery = normalizeSearchText(query);
+    return substances.map((substance): SubstanceMatch => {
+        const candidates: { field: MatchField; value: string | null; score: number }[] = [
+            { field: 'name', value: substance.name, score: matchScore(substance.name, normalizedQuery, nameMatchedIds.has(substance.id)) },
+            // 같은 정도로 맞으면 대표 이름을 동의어보다 앞에 둡니다.
+            ...(matchedSynonyms.get(substance.id) ?? []).map((name) => ({ field: 'synonym' as const, value: name, score: matchScore(name, normalizedQuery, true) - 0.5 })),
+            { field: 'cas_rn', value: substance.cas_rn, score: looksLikeCas ? matchScore(substance.cas_rn, normalizedQuery) : 0 },
+            {
+                field: 'molecular_formula',
+                value: substance.molecular_formula,
+                score: hillFormula && substance.molecular_formula === hillFormula ? 4 : matchScore(substance.molecular_formula, normalizedQuery),
+            },
+            { field: 'inchikey', value: substance.inchikey, score: looksLikeInchikey ? matchScore(substance.inchikey, normalizedQuery) : 0 },
+        ];
+        const best = candidates.filter((candidate) => candidate.value).reduce((a, b) => b.score > a.score ? b : a);
+        return {
+            id: substance.id,
+            casRn: substance.cas_rn,
+            name: substance.name ?? '',
+            formula: substance.molecular_formula ?? null,
+            field: best.field,
+            value: best.value ?? '',
+            score: best.score,
+        };
+    });
+}
+
+// ------------------------------------------------------------------
+// 병 찾기
+// ------------------------------------------------------------------
+
+// 결과는 물질 점수 순으로 정렬한 뒤 페이지를 나누므로, 조건에 맞는 병을 모두 읽습니다.
+async function fetchBottles(substanceIds: number[], filters: SearchFilters) {
+    let cabinetIds: number[] | null = null;
+    if (filters.areaId !== null) {
+        const { data: cabinets, error } = await supabase.from('Cabinet').select('id').eq('area_id', filters.areaId);
+        if (error) throw new Error(`Cabinet 조회 오류: ${error.message}`);
+        if (cabinets.length === 0) return [];
+        cabinetIds = cabinets.map((cabinet) => cabinet.id);
+    }
+
+    return await fetchAllRows('Inventory', (from, to) => {
+        let query = supabase
+            .from('Inventory')
+            .select(`id, bottle_identifier, substance_id, current_amount, initial_amount, unit, classification, state,
+                door_vertical, door_horizontal, internal_shelf_level, storage_column, cabinet_id,
+                Cabinet(id, name, archived_at, Area(id, name))`)
+            .in('substance_id', substanceIds)
+            .is('disposed_at', null);
+        if (cabinetIds !== null) query = query.in('cabinet_id', cabinetIds);
+        if (filters.cabinetId !== null) query = query.eq('cabinet_id', filters.cabinetId);
+        if (filters.classifications.length > 0) query = query.in('classification', filters.classifications);
+        if (filters.states.length > 0) query = query.in('state', filters.states);
+        return query.order('id').range(from, to);
+    });
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 약품 검색
+// GET /chemical-search?q=수산화나트륨&area_id=1&page=1&page_size=20
+// ------------------------------------------------------------------
+async function handleSearch(url: URL) {
+    const query = url.searchParams.get('q')?.trim() || '';
+    if (query.length === 0) throw new HttpError(400, '검색어(q)가 필요합니다.');
+    if (query.length > MAX_QUERY_LENGTH) throw new HttpError(400, `검색어는 ${MAX_QUERY_LENGTH}자까지 입력할 수 있습니다.`);
+
+    const filters: SearchFilters = {
+        areaId: parseIdParam(url, 'area_id'),
+        cabinetId: parseIdParam(url, 'cabinet_id'),
+        classifications: parseListParam(url, 'classification'),
+        states: parseListParam(url, 'state'),
+    };
+    const page = parsePositiveInt(url, 'page', 1, 10_000);
+    const pageSize = parsePositiveInt(url, 'page_size', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const substances = await findSubstances(query);
+    const bottles = substances.length > 0 ? await fetchBottles(substances.map((substance) => substance.id), filters) : [];
+    const substancesById = new Map(substances.map((substance) => [substance.id, substance]));
+
+    const results = bottles.map((bottle): SearchResult & { score: number } => {
+        const substance = substancesById.get(bottle.substance_id)!;
+        // 일대다 관계로 추론되는 경우를 위해 배열/객체 모두 처리합니다.
+        const cabinet = Array.isArray(bottle.Cabinet) ? bottle.Cabinet[0] : bottle.Cabinet;
+        const area = cabinet ? (Array.isArray(cabinet.Area) ? cabinet.Area[0] : cabinet.Area) : null;
+        const currentAmount = bottle.current_amount == null ? null : Number(bottle.current_amount);
+        const initialAmount = bottle.initial_amount == null ? null : Number(bottle.initial_amount);
+        return {
+            inventoryId: bottle.id,
+            bottleIdentifier: bottle.bottle_identifier ?? null,
+            substance: { id: substance.id, casRn: substance.casRn, name: substance.name, formula: substance.formula },
+            match: { field: substance.field, value: substance.value },
+            location: {
+                areaId: area?.id ?? null,
+                areaName: area?.name ?? UNASSIGNED_AREA,
+                cabinetId: cabinet?.id ?? null,
+                cabinetName: cabinet?.name ?? null,
+                cabinetArchived: Boolean(cabinet?.archived_at),
+                slot: formatSlotLabel(bottle),
+            },
+            currentAmount,
+            initialAmount,
+            unit: bottle.unit ?? null,
+            remainingRatio: currentAmount !== null && initialAmount !== null && initialAmount > 0 ? Math.round(currentAmount / initialAmount * 1000) / 1000 : null,
+            classification: bottle.classification ?? null,
+            state: bottle.state ?? null,
+            score: substance.score,
+        };
+    });
+
+    // 잘 맞는 물질 → 물질명 → 약품실 → 시약장 → 칸 순서
+    const collator = new Intl.Collator('ko', { numeric: true });
+    results.sort((a, b) =>
+        b.score - a.score ||
+        collator.compare(a.substance.name || a.substance.casRn, b.substance.name || b.substance.casRn) ||
+        collator.compare(a.location.areaName, b.location.areaName) ||
+        collator.compare(a.location.cabinetName ?? '', b.location.cabinetName ?? '') ||
+        collator.compare(a.location.slot, b.location.slot)
+    );
+
+    // 찾았지만 (조건에 맞는) 병이 없는 물질도 알려 주면 "우리 학교에는 없음"을 바로 알 수 있습니다.
+    const stockedIds = new Set(bottles.map((bottle) => bottle.substance_id));
+    const substancesWithoutStock = substances
+        .filter((substance) => !stockedIds.has(substance.id))
+        .sort((a, b) => b.score - a.score || collator.compare(a.name || a.casRn, b.name || b.casRn))
+        .slice(0, MAX_UNSTOCKED_SUBSTANCES)
+        .map((substance) => ({ id: substance.id, casRn: substance.casRn, name: substance.name, formula: substance.formula }));
+
+    const offset = (page - 1) * pageSize;
+    return jsonResponse(corsHeaders, {
+        query,
+        page,
+        pageSize,
+        total: results.length,
+        totalPages: Math.ceil(results.length / pageSize),
+        results: results.slice(offset, offset + pageSize).map(({ score: _score, ...result }) => result),
+        substancesWithoutStock,
+    });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            await authorize(req, ANY_ROLE);
+            return await handleSearch(new URL(req.url));
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Chemical Search Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
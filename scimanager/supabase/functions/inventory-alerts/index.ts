@@ -0,0 +1,516 @@
+// index.ts (Edge Function: inventory-alerts)
+//
+// 유효기간이 지났거나 곧 지나는 병, 잔량이 부족한 병을 약품실별로 모아 알려 줍니다.
+//   GET    /inventory-alerts?area_id=&within_days=   알림 목록 (staff 이상)
+//   GET    /inventory-alerts/rules                   알림 규칙 목록 (staff 이상)
+//   POST   /inventory-alerts/rules                   알림 규칙 추가/수정 (admin)
+//   DELETE /inventory-alerts/rules?id=               알림 규칙 삭제 (admin)
+//   POST   /inventory-alerts/send                    알림 메일 발송 (admin 또는 서비스 롤 키)
+//
+// 정기 발송은 pg_cron + pg_net 등으로 서비스 롤 키를 넣어 /inventory-alerts/send 를 호출하면 됩니다.
+
+import { serve } from 'std/http/server.ts';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { ADMIN_ONLY, AuthUser, authorize, EDITOR_ROLES, isServiceRoleRequest, UserRole } from '../_shared/auth.ts';
+import { formatSlotLabel } from '../_shared/cabinetSlots.ts';
+import { normalizeCasRn } from '../_shared/casClient.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { sendMail } from '../_shared/mailer.ts';
+import { fetchAllRows, supabase } from '../_shared/supabaseClient.ts';
+
+const corsHeaders = createCorsHeaders('GET, POST, DELETE, OPTIONS');
+
+// 날짜는 학교 기준(한국 시간)으로 계산합니다.
+const ALERT_TIME_ZONE = 'Asia/Seoul';
+const MAX_WITHIN_DAYS = 365;
+const UNASSIGNED_AREA = '위치 미지정';
+const RULE_FIELDS = ['shelf_life_days', 'expiry_warning_days', 'low_stock_ratio'] as const;
+const RULE_SELECT = 'id, substance_id, classification, shelf_life_days, expiry_warning_days, low_stock_ratio, updated_at, Substance(cas_rn, name)';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type RuleField = typeof RULE_FIELDS[number];
+
+interface AlertRule {
+    id: number;
+    substance_id: number | null;
+    classification: string | null;
+    shelf_life_days: number | null;
+    expiry_warning_days: number | null;
+    low_stock_ratio: number | null;
+}
+
+interface AlertItem {
+    inventoryId: number;
+    bottleIdentifier: string | null;
+    casRn: string;
+    name: string;
+    cabinetName: string;
+    location: string;
+    classification: string | null;
+    currentAmount: number | null;
+    initialAmount: number | null;
+    unit: string | null;
+    remainingRatio: number | null;
+    purchaseDate: string | null;
+    expiresOn: string | null;
+    daysLeft: number | null;
+}
+
+// 약품실 안에서 쓸 수 있는 병(만료·재고 부족이 아닌 병)이 하나도 남지 않은 물질은 다시 주문해야 합니다.
+interface ReorderItem {
+    substanceId: number;
+    casRn: string;
+    name: string;
+    bottles: number;
+}
+
+interface AreaDigest {
+    areaId: number | null;
+    areaName: string;
+    expired: AlertItem[];
+    expiringSoon: AlertItem[];
+    lowStock: AlertItem[];
+    reorder: ReorderItem[];
+}
+
+interface AlertDigest {
+    generatedOn: string;
+    withinDays: number | null;
+    totals: { expired: number; expiringSoon: number; lowStock: number; reorder: number };
+    areas: AreaDigest[];
+}
+
+// ------------------------------------------------------------------
+// 요청 해석
+// ------------------------------------------------------------------
+
+function parseIdParam(url: URL, name: string): number | null {
+    const raw = url.searchParams.get(name);
+    if (raw === null) return null;
+    const id = Number(raw);
+    if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw}'`);
+    return id;
+}
+
+function parseWithinDays(raw: unknown): number | null {
+    if (raw === null || raw === undefined || raw === '') return null;
+    const days = Number(raw);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_WITHIN_DAYS) {
+        throw new HttpError(400, `within_days는 0~${MAX_WITHIN_DAYS} 사이의 정수여야 합니다: '${raw}'`);
+    }
+    return days;
+}
+
+// ------------------------------------------------------------------
+// 날짜 계산
+// ------------------------------------------------------------------
+
+function todayString(): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: ALERT_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+}
+
+function toEpochDay(date: string): number | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+    if (!match) return null;
+    return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / 86_400_000;
+}
+
+function fromEpochDay(day: number): string {
+    return new Date(day * 86_400_000).toISOString().slice(0, 10);
+}
+
+// ------------------------------------------------------------------
+// 알림 규칙
+// ------------------------------------------------------------------
+
+async function fetchRules(): Promise<AlertRule[]> {
+    const data = await fetchAllRows('InventoryAlertRule', (from, to) => supabase.from('InventoryAlertRule').select(RULE_SELECT).order('id').range(from, to));
+    return data.map((rule) => ({
+        ...rule,
+        // numeric 컬럼은 문자열로 올 수 있습니다.
+        low_stock_ratio: rule.low_stock_ratio == null ? null : Number(rule.low_stock_ratio),
+    })) as AlertRule[];
+}
+
+// 물질별 → 분류별 → 기본 규칙 순으로, 항목마다 값이 있는 첫 규칙을 씁니다.
+function createRuleResolver(rules: AlertRule[]) {
+    const bySubstance = new Map(rules.filter((rule) => rule.substance_id !== null).map((rule) => [rule.substance_id!, rule]));
+    const byClassification = new Map(rules.filter((rule) => rule.classification !== null).map((rule) => [rule.classification!, rule]));
+    const defaultRule = rules.find((rule) => rule.substance_id === null && rule.classification === null);
+
+    return (substanceId: number | null, classification: string | null): Record<RuleField, number | null> => {
+        const candidates = [
+            substanceId !== null ? bySubstance.get(substanceId) : undefined,
+            classification !== null ? byClassification.get(classification) : undefined,
+            defaultRule,
+        ];
+        const resolved = {} as Record<RuleField, number | null>;
+        for (const field of RULE_FIELDS) {
+            resolved[field] = candidates.find((rule) => rule?.[field] != null)?.[field] ?? null;
+        }
+        return resolved;
+    };
+}
+
+// ------------------------------------------------------------------
+// 알림 목록 만들기
+// ------------------------------------------------------------------
+
+async function fetchBottles(areaId: number | null) {
+    let cabinetIds: number[] | null = null;
+    if (areaId !== null) {
+        const { data: cabinets, error } = await supabase.from('Cabinet').select('id').eq('area_id', areaId);
+        if (error) throw new Error(`Cabinet 조회 오류: ${error.message}`);
+        if (cabinets.length === 0) return [];
+        cabinetIds = cabinets.map((cabinet) => cabinet.id);
+    }
+
+    return await fetchAllRows('Inventory', (from, to) => {
+        let query = supabase
+            .from('Inventory')
+            .select(`id, bottle_identifier, substance_id, current_amount, initial_amount, unit, purchase_date, classification,
+                door_vertical, door_horizontal, internal_shelf_level, storage_column, cabinet_id,
+                Substance(cas_rn, name),
+                Cabinet(id, name, area_id, Area(id, name))`)
+            .is('disposed_at', null);
+        if (cabinetIds !== null) query = query.in('cabinet_id', cabinetIds);
+        return query.order('id').range(from, to);
+    });
+}
+
+async function buildDigest(areaId: number | null, withinDays: number | null): Promise<AlertDigest> {
+    const [bottles, rules] = await Promise.all([fetchBottles(areaId), fetchRules()]);
+    const resolveRule = createRuleResolver(rules);
+    const generatedOn = todayString();
+    const today = toEpochDay(generatedOn)!;
+
+    const areas = new Map<string, AreaDigest>();
+    // 약품실별 물질 상태: 병 수와 아직 쓸 수 있는 병이 있는지
+    const substanceStates = new Map<string, Map<number, { item: ReorderItem; usable: boolean }>>();
+
+    for (const bottle of bottles) {
+        // 일대다 관계로 추론되는 경우를 위해 배열/객체 모두 처리합니다.
+        const substance = Array.isArray(bottle.Substance) ? bottle.Substance[0] : bottle.Substance;
+        const cabinet = Array.isArray(bottle.Cabinet) ? bottle.Cabinet[0] : bottle.Cabinet;
+        const area = cabinet ? (Array.isArray(cabinet.Area) ? cabinet.Area[0] : cabinet.Area) : null;
+        const rule = resolveRule(bottle.substance_id ?? null, bottle.classification ?? null);
+
+        const currentAmount = bottle.current_amount == null ? null : Number(bottle.current_amount);
+        const initialAmount = bottle.initial_amount == null ? null : Number(bottle.initial_amount);
+        const remainingRatio = currentAmount !== null && initialAmount !== null && initialAmount > 0 ? currentAmount / initialAmount : null;
+
+        const purchaseDay = bottle.purchase_date ? toEpochDay(String(bottle.purchase_date)) : null;
+        const expiresDay = purchaseDay !== null && rule.shelf_life_days !== null ? purchaseDay + rule.shelf_life_days : null;
+        const daysLeft = expiresDay !== null ? expiresDay - today : null;
+
+        const item: AlertItem = {
+            inventoryId: bottle.id,
+            bottleIdentifier: bottle.bottle_identifier ?? null,
+            casRn: substance?.cas_rn ?? '',
+            name: substance?.name ?? '',
+            cabinetName: cabinet?.name ?? UNASSIGNED_AREA,
+            location: formatSlotLabel(bottle),
+            classification: bottle.classification ?? null,
+            currentAmount,
+            initialAmount,
+            unit: bottle.unit ?? null,
+            remainingRatio: remainingRatio === null ? null : Math.round(remainingRatio * 1000) / 1000,
+            purchaseDate: purchaseDay !== null ? fromEpochDay(purchaseDay) : null,
+            expiresOn: expiresDay !== null ? fromEpochDay(expiresDay) : null,
+            daysLeft,
+        };
+
+        const areaKey = String(area?.id ?? '');
+        let digest = areas.get(areaKey);
+        if (!digest) {
+            digest = { areaId: area?.id ?? null, areaName: area?.name ?? UNASSIGNED_AREA, expired: [], expiringSoon: [], lowStock: [], reorder: [] };
+            areas.set(areaKey, digest);
+        }
+
+        const warningDays = withinDays ?? rule.expiry_warning_days ?? 0;
+        const expired = daysLeft !== null && daysLeft < 0;
+        const lowStock = remainingRatio !== null && rule.low_stock_ratio !== null && remainingRatio <= rule.low_stock_ratio;
+        if (expired) digest.expired.push(item);
+        else if (daysLeft !== null && daysLeft <= warningDays) digest.expiringSoon.push(item);
+        if (lowStock) digest.lowStock.push(item);
+
+        if (bottle.substance_id != null) {
+            let states = substanceStates.get(areaKey);
+            if (!states) substanceStates.set(areaKey, states = new Map());
+            const state = states.get(bottle.substance_id) ??
+                { item: { substanceId: bottle.substance_id, casRn: item.casRn, name: item.name, bottles: 0 }, usable: false };
+            state.item.bottles++;
+            state.usable ||= !expired && !lowStock;
+            states.set(bottle.substance_id, state);
+        }
+    }
+
+    const collator = new Intl.Collator('ko', { numeric: true });
+    const byName = (a: { name: string; casRn: string }, b: { name: string; casRn: string }) => collator.compare(a.name || a.casRn, b.name || b.casRn);
+    const byDaysLeft = (a: AlertItem, b: AlertItem) => a.daysLeft! - b.daysLeft! || byName(a, b);
+
+    const result = [...areas.entries()].map(([areaKey, digest]) => ({
+        ...digest,
+        expired: digest.expired.sort(byDaysLeft),
+        expiringSoon: digest.expiringSoon.sort(byDaysLeft),
+        lowStock: digest.lowStock.sort((a, b) => a.remainingRatio! - b.remainingRatio! || byName(a, b)),
+        reorder: [...(substanceStates.get(areaKey)?.values() ?? [])].filter((state) => !state.usable).map((state) => state.item).sort(byName),
+    }))
+        .filter((digest) => digest.expired.length + digest.expiringSoon.length + digest.lowStock.length > 0)
+        .sort((a, b) => collator.compare(a.areaName, b.areaName));
+
+    return {
+        generatedOn,
+        withinDays,
+        totals: {
+            expired: result.reduce((sum, digest) => sum + digest.expired.length, 0),
+            expiringSoon: result.reduce((sum, digest) => sum + digest.expiringSoon.length, 0),
+            lowStock: result.reduce((sum, digest) => sum + digest.lowStock.length, 0),
+            reorder: result.reduce((sum, digest) => sum + digest.reorder.length, 0),
+        },
+        areas: result,
+    };
+}
+
+// ------------------------------------------------------------------
+// 메일 본문
+// ------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+}
+
+function formatAmount(item: AlertItem): string {
+    if (item.currentAmount === null) return '잔량 미상';
+    const total = item.initialAmount !== null ? ` / ${item.initialAmount}` : '';
+    const percent = item.remainingRatio !== null ? ` (${Math.round(item.remainingRatio * 100)}%)` : '';
+    return `${item.currentAmount}${total} ${item.unit ?? ''}${percent}`.trim();
+}
+
+function formatExpiry(item: AlertItem): string {
+    if (item.daysLeft === null) return '';
+    if (item.daysLeft < 0) return `${item.expiresOn} 만료 (${-item.daysLeft}일 지남)`;
+    return item.daysLeft === 0 ? `${item.expiresOn} 오늘 만료` : `${item.expiresOn} 만료 (${item.daysLeft}일 남음)`;
+}
+
+const DIGEST_SECTIONS: { key: 'expired' | 'expiringSoon' | 'lowStock'; title: string; detail: (item: AlertItem) => string }[] = [
+    { key: 'expired', title: '유효기간 지남', detail: formatExpiry },
+    { key: 'expiringSoon', title: '유효기간 임박', detail: formatExpiry },
+    { key: 'lowStock', title: '재고 부족', detail: formatAmount },
+];
+
+function describeItem(item: AlertItem): string {
+    return `${item.name || item.casRn} [${item.casRn}] - ${item.cabinetName} ${item.location}`;
+}
+
+function renderDigestMail(digest: AlertDigest) {
+    const { totals } = digest;
+    const subject = `[SciManager] 약품 점검 알림 ${digest.generatedOn} - 만료 ${totals.expired}, 임박 ${totals.expiringSoon}, 재고 부족 ${totals.lowStock}`;
+
+    const text: string[] = [`${digest.generatedOn} 기준 약품 점검 결과입니다.`, ''];
+    const html: string[] = [`<p>${escapeHtml(digest.generatedOn)} 기준 약품 점검 결과입니다.</p>`];
+
+    if (digest.areas.length === 0) {
+        text.push('알릴 항목이 없습니다.');
+        html.push('<p>알릴 항목이 없습니다.</p>');
+    }
+
+    for (const area of digest.areas) {
+        text.push(`■ ${area.areaName}`);
+        html.push(`<h2>${escapeHtml(area.areaName)}</h2>`);
+        for (const section of DIGEST_SECTIONS) {
+            const items = area[section.key];
+            if (items.length === 0) continue;
+            text.push(`  [${section.title}] ${items.length}건`);
+            text.push(...items.map((item) => `    - ${describeItem(item)}: ${section.detail(item)}`));
+            html.push(`<h3>${escapeHtml(section.title)} (${items.length}건)</h3><ul>`);
+            html.push(...items.map((item) => `<li>${escapeHtml(describeItem(item))}: ${escapeHtml(section.detail(item))}</li>`));
+            html.push('</ul>');
+        }
+        if (area.reorder.length > 0) {
+            text.push(`  [재주문 필요] ${area.reorder.map((item) => item.name || item.casRn).join(', ')}`);
+            html.push(`<h3>재주문 필요 (${area.reorder.length}종)</h3><p>${escapeHtml(area.reorder.map((item) => item.name || item.casRn).join(', '))}</p>`);
+        }
+        text.push('');
+    }
+
+    return { subject, text: text.join('\n'), html: html.join('\n') };
+}
+
+// 받는 사람을 지정하지 않으면 admin/staff 계정 전체에 보냅니다.
+async function fetchEditorEmails(): Promise<string[]> {
+    const emails = new Set<string>();
+    const perPage = 1000;
+    for (let page = 1;; page++) {
+        const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
+        if (error) throw new Error(`사용자 목록 조회 오류: ${error.message}`);
+        for (const user of data.users) {
+            if (user.email && EDITOR_ROLES.includes(user.app_metadata?.role as UserRole)) emails.add(user.email);
+        }
+        if (data.users.length < perPage) break;
+    }
+    return [...emails];
+}
+
+function parseRecipients(raw: unknown): string[] | null {
+    if (raw === undefined || raw === null) return null;
+    const list = (Array.isArray(raw) ? raw : String(raw).split(',')).map((email) => String(email).trim()).filter((email) => email.length > 0);
+    const invalid = list.filter((email) => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) throw new HttpError(400, `이메일 주소가 올바르지 않습니다: ${invalid.join(', ')}`);
+    return list;
+}
+
+// ------------------------------------------------------------------
+// 핸들러
+// ------------------------------------------------------------------
+
+async function handleGetDigest(url: URL) {
+    const digest = await buildDigest(parseIdParam(url, 'area_id'), parseWithinDays(url.searchParams.get('within_days')));
+    return jsonResponse(corsHeaders, digest);
+}
+
+async function handleSendDigest(req: Request) {
+    const body = await req.json().catch(() => ({}));
+    const areaId = body.area_id == null ? null : Number(body.area_id);
+    if (areaId !== null && (!Number.isInteger(areaId) || areaId <= 0)) throw new HttpError(400, `area_id 값이 올바르지 않습니다: '${body.area_id}'`);
+
+    const digest = await buildDigest(areaId, parseWithinDays(body.within_days));
+    const hasAlerts = digest.areas.length > 0;
+    if (!hasAlerts && body.send_empty !== true) {
+        return jsonResponse(corsHeaders, { sent: false, reason: '알릴 항목이 없습니다.', digest });
+    }
+
+    const recipients = parseRecipients(body.recipients) ?? await fetchEditorEmails();
+    if (recipients.length === 0) throw new HttpError(400, '메일을 받을 admin/staff 계정이 없습니다. recipients를 지정해 주세요.');
+
+    const result = await sendMail({ to: recipients, ...renderDigestMail(digest) });
+    return jsonResponse(corsHeaders, { sent: true, recipients: result.accepted, rejected: result.rejected, messageId: result.messageId, digest });
+}
+
+async function handleGetRules() {
+    const { data, error } = await supabase.from('InventoryAlertRule').select(RULE_SELECT).order('id');
+    if (error) throw new Error(`InventoryAlertRule 조회 오류: ${error.message}`);
+    return jsonResponse(corsHeaders, { rules: data });
+}
+
+function parseRuleValue(field: RuleField, raw: unknown): number | null {
+    if (raw === null) return null;
+    const value = Number(raw);
+    const valid = field === 'low_stock_ratio'
+        ? Number.isFinite(value) && value >= 0 && value < 1
+        : Number.isInteger(value) && (field === 'shelf_life_days' ? value > 0 : value >= 0);
+    if (!valid) {
+        const expected = field === 'low_stock_ratio' ? '0 이상 1 미만의 비율' : field === 'shelf_life_days' ? '1 이상의 정수(일)' : '0 이상의 정수(일)';
+        throw new HttpError(400, `${field}는 ${expected}이어야 합니다: '${raw}'`);
+    }
+    return value;
+}
+
+// 같은 대상(물질/분류/기본)의 규칙이 있으면 보낸 항목만 고치고, 없으면 새로 만듭니다. 값을 null로 보내면 상위 규칙을 따릅니다.
+async function handleUpsertRule(req: Request, user: AuthUser) {
+    const body = await req.json();
+
+    let substanceId: number | null = body.substance_id == null ? null : Number(body.substance_id);
+    if (substanceId === null && body.cas_rn) {
+        const casRn = normalizeCasRn(String(body.cas_rn));
+        const { data, error } = await supabase.from('Substance').select('id').eq('cas_rn', casRn).maybeSingle();
+        if (error) throw new Error(`Substance 조회 오류: ${error.message}`);
+        if (!data) throw new HttpError(404, `등록되지 않은 물질입니다: ${casRn}`);
+        substanceId = data.id;
+    }
+    if (substanceId !== null && (!Number.isInteger(substanceId) || substanceId <= 0)) {
+        throw new HttpError(400, `substance_id 값이 올바르지 않습니다: '${body.substance_id}'`);
+    }
+    const classification = typeof body.classification === 'string' && body.classification.trim() ? body.classification.trim() : null;
+    if (substanceId !== null && classification !== null) throw new HttpError(400, '규칙은 물질 또는 분류 중 하나에만 지정할 수 있습니다.');
+
+    const values: Partial<Record<RuleField, number | null>> = {};
+    for (const field of RULE_FIELDS) {
+        if (body[field] !== undefined) values[field] = parseRuleValue(field, body[field]);
+    }
+
+    let existingQuery = supabase.from('InventoryAlertRule').select('*');
+    existingQuery = substanceId !== null ? existingQuery.eq('substance_id', substanceId) : existingQuery.is('substance_id', null);
+    existingQuery = classification !== null ? existingQuery.eq('classification', classification) : existingQuery.is('classification', null);
+    const { data: existing, error: fetchError } = await existingQuery.maybeSingle();
+    if (fetchError) throw new Error(`InventoryAlertRule 조회 오류: ${fetchError.message}`);
+
+    if (existing) {
+        const { data: updated, error } = await supabase
+            .from('InventoryAlertRule')
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+            .select('*')
+            .single();
+        if (error) throw new Error(`InventoryAlertRule 수정 오류: ${error.message}`);
+        await recordAudit(user, { action: 'update', table: 'InventoryAlertRule', rowId: updated.id, before: existing, after: updated });
+        return jsonResponse(corsHeaders, { rule: updated });
+    }
+
+    const { data: inserted, error } = await supabase
+        .from('InventoryAlertRule')
+        .insert({ substance_id: substanceId, classification, ...values })
+        .select('*')
+        .single();
+    if (error) {
+        const status = error.code === '23503' ? 404 : error.code === '23505' ? 409 : 500;
+        throw new HttpError(status, `InventoryAlertRule 추가 오류: ${error.message}`);
+    }
+    await recordAudit(user, { action: 'insert', table: 'InventoryAlertRule', rowId: inserted.id, after: inserted });
+    return jsonResponse(corsHeaders, { rule: inserted }, 201);
+}
+
+async function handleDeleteRule(url: URL, user: AuthUser) {
+    const id = parseIdParam(url, 'id');
+    if (id === null) throw new HttpError(400, '삭제할 규칙 id가 필요합니다.');
+
+    const { data: rule, error: fetchError } = await supabase.from('InventoryAlertRule').select('*').eq('id', id).maybeSingle();
+    if (fetchError) throw new Error(`InventoryAlertRule 조회 오류: ${fetchError.message}`);
+    if (!rule) throw new HttpError(404, `알림 규칙(ID: ${id})을 찾을 수 없습니다.`);
+    if (rule.substance_id === null && rule.classification === null) {
+        throw new HttpError(400, '기본 규칙은 삭제할 수 없습니다. 값을 null로 바꿔 알림을 끌 수 있습니다.');
+    }
+
+    const { error } = await supabase.from('InventoryAlertRule').delete().eq('id', id);
+    if (error) throw new Error(`InventoryAlertRule 삭제 오류: ${error.message}`);
+    await recordAudit(user, { action: 'delete', table: 'InventoryAlertRule', rowId: id, before: rule });
+    return jsonResponse(corsHeaders, { deleted: id });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        const url = new URL(req.url);
+        const isRulesPath = url.pathname.endsWith('/rules');
+
+        if (req.method === 'GET') {
+            await authorize(req, EDITOR_ROLES);
+            return isRulesPath ? await handleGetRules() : await handleGetDigest(url);
+        }
+        if (req.method === 'POST' && isRulesPath) {
+            const user = await authorize(req, ADMIN_ONLY);
+            return await handleUpsertRule(req, user);
+        }
+        if (req.method === 'POST' && url.pathname.endsWith('/send')) {
+            // 예약 작업은 서비스 롤 키로 호출하므로 사용자 확인을 건너뜁니다.
+            if (!isServiceRoleRequest(req)) await authorize(req, ADMIN_ONLY);
+            return await handleSendDigest(req);
+        }
+        if (req.method === 'DELETE' && isRulesPath) {
+            const user = await authorize(req, ADMIN_ONLY);
+            return await handleDeleteRule(url, user);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Inventory Alerts Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
@@ -0,0 +1,607 @@
+// index.ts (Edge Function: inventory-disposal)
+//
+// 다 쓴 병, 유효기간이 지난 병, 오염된 병을 폐기 처리하고 남은 양을 폐액통(폐기물 용기)으로 옮겨 기록합니다.
+//   POST  /inventory-disposal                        병 폐기 (staff 이상)
+//   GET   /inventory-disposal?from=&to=              폐기 기록 (staff 이상)
+//   GET   /inventory-disposal/containers?status=     폐액통 목록 (staff 이상)
+//   POST  /inventory-disposal/containers             폐액통 추가 (staff 이상)
+//   PATCH /inventory-disposal/containers             폐액통 닫기/수거 기록 (staff 이상)
+//   GET   /inventory-disposal/manifest?format=       폐기물 인계 목록 (csv|pdf|json, staff 이상)
+//
+// 폐기한 병은 지우지 않고 Inventory.disposed_at 을 남기므로, 시약장 칸·위치·검색·보고서·알림에서는 빠지고 이력과 감사 로그에는 남습니다.
+
+import { serve } from 'std/http/server.ts';
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { AuthUser, authorize, EDITOR_ROLES } from '../_shared/auth.ts';
+import { formatSlotLabel } from '../_shared/cabinetSlots.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { DocumentFont, embedDocumentFont, fitText, pdfText } from '../_shared/pdf.ts';
+import { fetchAllRows, supabase } from '../_shared/supabaseClient.ts';
+import { convertAmount, fetchDensities, normalizeAmountUnit, requireAmountUnit } from '../_shared/units.ts';
+
+const corsHeaders = createCorsHeaders('GET, POST, PATCH, OPTIONS');
+
+type DisposalReason = 'empty' | 'expired' | 'contaminated' | 'other';
+type DisposalMethod = 'waste_container' | 'vendor_pickup' | 'neutralized' | 'other';
+type WasteCategory = 'acid' | 'alkali' | 'halogenated_organic' | 'non_halogenated_organic' | 'heavy_metal' | 'oxidizer' | 'toxic' | 'solid' | 'other';
+type ContainerStatus = 'open' | 'closed' | 'collected' | 'all';
+type ManifestFormat = 'csv' | 'pdf' | 'json';
+
+const DISPOSAL_REASONS: Record<DisposalReason, string> = {
+    empty: '다 씀',
+    expired: '유효기간 지남',
+    contaminated: '오염',
+    other: '기타',
+};
+
+const DISPOSAL_METHODS: Record<DisposalMethod, string> = {
+    waste_container: '폐액통에 모음',
+    vendor_pickup: '병째 업체 위탁',
+    neutralized: '중화 처리',
+    other: '기타',
+};
+
+// 폐기물 종류 (폐기물관리법의 실험실 폐액 분류 기준)
+const WASTE_CATEGORIES: Record<WasteCategory, string> = {
+    acid: '폐산',
+    alkali: '폐알칼리',
+    halogenated_organic: '할로겐족 유기용제',
+    non_halogenated_organic: '비할로겐족 유기용제',
+    heavy_metal: '중금속 함유 폐액',
+    oxidizer: '산화성 폐액',
+    toxic: '유독물 함유 폐기물',
+    solid: '고상 폐기물',
+    other: '기타',
+};
+
+const CONTAINER_STATUSES: ContainerStatus[] = ['open', 'closed', 'collected', 'all'];
+const MANIFEST_FORMATS: ManifestFormat[] = ['csv', 'pdf', 'json'];
+
+const CONTENT_TYPES: Record<Exclude<ManifestFormat, 'json'>, string> = {
+    csv: 'text/csv; charset=utf-8',
+    pdf: 'application/pdf',
+};
+
+// dispose_inventory 함수가 던지는 오류 코드 → HTTP 상태 코드
+const RPC_ERROR_STATUS: Record<string, number> = {
+    'P0002': 404, // 병/폐액통 없음
+    '55000': 409, // 이미 폐기한 병 또는 닫힌 폐액통
+    '22023': 400, // 잘못된 값
+    '23514': 409, // 폐액통 용량 초과 등 제약 조건 위반
+    '23505': 409, // 같은 병을 동시에 폐기
+};
+
+interface DisposalRow {
+    id: number;
+    created_at: string;
+    inventory_id: number;
+    reason: DisposalReason;
+    method: DisposalMethod;
+    disposed_on: string;
+    amount: number;
+    unit: string | null;
+    waste_container_id: number | null;
+    waste_amount: number | null;
+    location: string | null;
+    note: string | null;
+    disposed_by: string | null;
+    Substance: { cas_rn: string; name: string | null } | null;
+    Inventory: { bottle_identifier: string | null } | null;
+}
+
+interface WasteContainerRow {
+    id: number;
+    name: string;
+    waste_category: WasteCategory;
+    area_id: number | null;
+    unit: string;
+    capacity: number | null;
+    current_amount: number;
+    opened_at: string;
+    closed_at: string | null;
+    collected_at: string | null;
+    note: string | null;
+}
+
+// 인계 목록의 한 묶음: 폐액통 하나, 또는 폐액통을 쓰지 않은 처리 방법 하나
+interface ManifestGroup {
+    title: string;
+    category: string;
+    container: WasteContainerRow | null;
+    items: { name: string; casRn: string; bottles: number; amount: string; disposedOn: string }[];
+}
+
+// ------------------------------------------------------------------
+// 요청 해석
+// ------------------------------------------------------------------
+
+function parseIdParam(url: URL, name: string): number | null {
+    const raw = url.searchParams.get(name);
+    if (raw === null) return null;
+    const id = Number(raw);
+    if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw}'`);
+    return id;
+}
+
+function requireId(raw: unknown, name: string): number {
+    const id = Number(raw);
+    if (raw == null || !Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw ?? ''}'`);
+    return id;
+}
+
+function parseChoice<T extends string>(raw: unknown, choices: readonly T[], name: string): T {
+    if (!choices.includes(raw as T)) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw ?? ''}' (사용 가능: ${choices.join(', ')})`);
+    return raw as T;
+}
+
+function parseDate(raw: unknown, name: string): string | null {
+    if (raw == null || raw === '') return null;
+    const text = String(raw);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(Date.parse(text))) {
+        throw new HttpError(400, `${name}은(는) YYYY-MM-DD 형식이어야 합니다: '${text}'`);
+    }
+    return text;
+}
+
+function parseOptionalText(raw: unknown): string | null {
+    return typeof raw === 'string' && raw.trim().length > 0 ? raw.trim() : null;
+}
+
+// 기본 기간: 올해 1월 1일 ~ 오늘
+function parsePeriod(url: URL): { from: string; to: string } {
+    const today = new Date().toISOString().slice(0, 10);
+    const from = parseDate(url.searchParams.get('from'), 'from') ?? `${today.slice(0, 4)}-01-01`;
+    const to = parseDate(url.searchParams.get('to'), 'to') ?? today;
+    if (from > to) throw new HttpError(400, `기간이 올바르지 않습니다: ${from} ~ ${to}`);
+    return { from, to };
+}
+
+function formatAmount(value: number | null, unit: string | null): string {
+    if (value == null) return '';
+    return `${Math.round(Number(value) * 1000) / 1000} ${unit ?? ''}`.trim();
+}
+
+// ------------------------------------------------------------------
+// POST 로직: 병 폐기
+// 요청 형식: { inventory_id, reason, method, disposed_on?, waste_container_id?, waste_amount?, note? }
+// method가 waste_container이면 남은 양을 폐액통 단위로 환산해 더합니다. (환산할 수 없으면 waste_amount를 직접 보내야 합니다.)
+// ------------------------------------------------------------------
+async function handleDispose(req: Request, user: AuthUser) {
+    const body = await req.json();
+    const inventoryId = requireId(body?.inventory_id, 'inventory_id');
+    const reason = parseChoice(body.reason, Object.keys(DISPOSAL_REASONS) as DisposalReason[], 'reason');
+    const method = parseChoice(body.method, Object.keys(DISPOSAL_METHODS) as DisposalMethod[], 'method');
+    const disposedOn = parseDate(body.disposed_on, 'disposed_on');
+
+    const { data: bottle, error: bottleError } = await supabase
+        .from('Inventory')
+        .select(`id, substance_id, current_amount, unit, disposed_at,
+            door_vertical, door_horizontal, internal_shelf_level, storage_column,
+            Cabinet(name, Area(name))`)
+        .eq('id', inventoryId)
+        .maybeSingle();
+    if (bottleError) throw new Error(`Inventory 조회 오류: ${bottleError.message}`);
+    if (!bottle) throw new HttpError(404, `재고(ID: ${inventoryId})를 찾을 수 없습니다.`);
+    if (bottle.disposed_at) throw new HttpError(409, `이미 폐기한 병입니다. (ID: ${inventoryId})`);
+
+    let containerId: number | null = null;
+    let wasteAmount: number | null = null;
+    if (method === 'waste_container') {
+        containerId = requireId(body.waste_container_id, 'waste_container_id');
+        if (body.waste_amount != null) {
+            wasteAmount = Number(body.waste_amount);
+            if (!Number.isFinite(wasteAmount) || wasteAmount < 0) throw new HttpError(400, `waste_amount는 0 이상의 숫자여야 합니다: '${body.waste_amount}'`);
+        } else {
+            wasteAmount = await convertToContainerUnit(bottle, containerId);
+        }
+    }
+
+    // 시약장이 나중에 지워져도 알 수 있도록 폐기 당시 위치를 글로 남깁니다.
+    const cabinet = Array.isArray(bottle.Cabinet) ? bottle.Cabinet[0] : bottle.Cabinet;
+    const area = cabinet ? (Array.isArray(cabinet.Area) ? cabinet.Area[0] : cabinet.Area) : null;
+    const location = cabinet ? `${[area?.name, cabinet.name].filter(Boolean).join(' / ')} ${formatSlotLabel(bottle)}` : null;
+
+    const { data: disposal, error } = await supabase.rpc('dispose_inventory', {
+        p_inventory_id: inventoryId,
+        p_reason: reason,
+        p_method: method,
+        p_disposed_on: disposedOn ?? new Date().toISOString().slice(0, 10),
+        p_waste_container_id: containerId,
+        p_waste_amount: wasteAmount,
+        p_location: location,
+        p_note: parseOptionalText(body.note),
+        p_actor_id: user.id,
+        p_actor_email: user.email,
+        p_actor_role: user.role,
+    });
+    if (error) throw new HttpError(RPC_ERROR_STATUS[error.code] ?? 500, `폐기 처리 오류: ${error.message}`);
+
+    return jsonResponse(corsHeaders, { status: 'success', disposal }, 201);
+}
+
+// 병에 남은 양을 폐액통 단위로 바꿉니다. (예: 병 500 mL → 폐액통 L 단위로 0.5)
+async function convertToContainerUnit(bottle: { substance_id: number; current_amount: number | null; unit: string | null }, containerId: number): Promise<number> {
+    const remaining = Number(bottle.current_amount ?? 0);
+    if (remaining === 0) return 0;
+
+    const { data: container, error } = await supabase.from('WasteContainer').select('id, name, unit').eq('id', containerId).maybeSingle();
+    if (error) throw new Error(`WasteContainer 조회 오류: ${error.message}`);
+    if (!container) throw new HttpError(404, `폐액통(ID: ${containerId})을 찾을 수 없습니다.`);
+
+    const bottleUnit = normalizeAmountUnit(bottle.unit);
+    const containerUnit = normalizeAmountUnit(container.unit);
+    if (!bottleUnit || !containerUnit) throw new HttpError(400, `병 단위('${bottle.unit}')를 폐액통 단위('${container.unit}')로 바꿀 수 없습니다. waste_amount를 직접 입력해 주세요.`);
+
+    const densities = bottleUnit.dimension === containerUnit.dimension ? new Map<number, number>() : await fetchDensities([bottle.substance_id]);
+    const converted = convertAmount(remaining, bottleUnit, containerUnit, densities.get(bottle.substance_id));
+    if (converted == null) {
+        throw new HttpError(400, `${bottleUnit.symbol}을(를) ${containerUnit.symbol}(으)로 환산할 수 없습니다. (밀도 정보 없음) waste_amount를 직접 입력해 주세요.`);
+    }
+    return converted;
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 폐기 기록
+// GET /inventory-disposal?from=2026-01-01&to=2026-12-31&reason=expired&method=waste_container&waste_container_id=3
+// ------------------------------------------------------------------
+async function fetchDisposals(url: URL): Promise<{ period: { from: string; to: string }; disposals: DisposalRow[] }> {
+    const period = parsePeriod(url);
+    const rawReason = url.searchParams.get('reason');
+    const reason = rawReason ? parseChoice(rawReason, Object.keys(DISPOSAL_REASONS) as DisposalReason[], 'reason') : null;
+    const rawMethod = url.searchParams.get('method');
+    const method = rawMethod ? parseChoice(rawMethod, Object.keys(DISPOSAL_METHODS) as DisposalMethod[], 'method') : null;
+    const containerId = parseIdParam(url, 'waste_container_id');
+
+    // 인계 목록이 중간에 잘리지 않도록 기간 안의 기록을 끝까지 읽습니다.
+    const rows = await fetchAllRows('Disposal', (from, to) => {
+        let query = supabase
+            .from('Disposal')
+            .select(`id, inventory_id, reason, method, disposed_on, amount, unit, waste_container_id, waste_amount, location, note, created_at, disposed_by,
+                Substance(cas_rn, name), Inventory(bottle_identifier)`)
+            .gte('disposed_on', period.from)
+            .lte('disposed_on', period.to);
+        if (reason) query = query.eq('reason', reason);
+        if (method) query = query.eq('method', method);
+        if (containerId !== null) query = query.eq('waste_container_id', containerId);
+        return query.order('disposed_on', { ascending: false }).order('id', { ascending: false }).range(from, to);
+    });
+
+    return {
+        period,
+        disposals: rows.map((row): DisposalRow => ({
+            id: row.id,
+            created_at: row.created_at,
+            inventory_id: row.inventory_id,
+            reason: row.reason,
+            method: row.method,
+            disposed_on: row.disposed_on,
+            amount: row.amount,
+            unit: row.unit,
+            waste_container_id: row.waste_container_id,
+            waste_amount: row.waste_amount,
+            location: row.location,
+            note: row.note,
+            disposed_by: row.disposed_by,
+            // 일대다 관계로 추론되는 경우를 위해 배열/객체 모두 처리합니다.
+            Substance: (Array.isArray(row.Substance) ? row.Substance[0] : row.Substance) ?? null,
+            Inventory: (Array.isArray(row.Inventory) ? row.Inventory[0] : row.Inventory) ?? null,
+        })),
+    };
+}
+
+async function handleGetDisposals(url: URL) {
+    const { period, disposals } = await fetchDisposals(url);
+    return jsonResponse(corsHeaders, { ...period, disposals });
+}
+
+// ------------------------------------------------------------------
+// 폐액통 관리
+// ------------------------------------------------------------------
+
+// GET /inventory-disposal/containers?status=open|closed|collected|all&area_id=1
+async function handleGetContainers(url: URL) {
+    const status = parseChoice(url.searchParams.get('status') || 'open', CONTAINER_STATUSES, 'status');
+    let query = supabase.from('WasteContainer').select('*').order('opened_at', { ascending: false });
+    if (status === 'open') query = query.is('closed_at', null);
+    if (status === 'closed') query = query.not('closed_at', 'is', null).is('collected_at', null);
+    if (status === 'collected') query = query.not('collected_at', 'is', null);
+    const areaId = parseIdParam(url, 'area_id');
+    if (areaId !== null) query = query.eq('area_id', areaId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`WasteContainer 조회 오류: ${error.message}`);
+    return jsonResponse(corsHeaders, { containers: data });
+}
+
+// 요청 형식: { name, waste_category, unit, capacity?, area_id?, note? }
+async function handleCreateContainer(req: Request, user: AuthUser) {
+    const body = await req.json();
+    const name = parseOptionalText(body?.name);
+    if (!name) throw new HttpError(400, '폐액통 이름(name)이 필요합니다.');
+    const wasteCategory = parseChoice(body.waste_category, Object.keys(WASTE_CATEGORIES) as WasteCategory[], 'waste_category');
+    const unit = requireAmountUnit(body.unit);
+    const capacity = body.capacity == null ? null : Number(body.capacity);
+    if (capacity !== null && (!Number.isFinite(capacity) || capacity <= 0)) throw new HttpError(400, `capacity는 0보다 큰 숫자여야 합니다: '${body.capacity}'`);
+
+    const { data: container, error } = await supabase
+        .from('WasteContainer')
+        .insert({
+            name,
+            waste_category: wasteCategory,
+            unit: unit.symbol,
+            capacity,
+            area_id: body.area_id == null ? null : requireId(body.area_id, 'area_id'),
+            note: parseOptionalText(body.note),
+            created_by: user.id,
+        })
+        .select('*')
+        .single();
+    if (error) throw new HttpError(error.code === '23503' ? 400 : 500, `WasteContainer 추가 오류: ${error.message}`);
+
+    await recordAudit(user, { action: 'insert', table: 'WasteContainer', rowId: container.id, after: container });
+    return jsonResponse(corsHeaders, { container }, 201);
+}
+
+// 요청 형식: { id, action: 'close' | 'collect', note? }
+// close: 더 이상 폐액을 받지 않음, collect: 업체가 수거함 (닫지 않은 통이면 함께 닫습니다.)
+async function handleUpdateContainer(req: Request, user: AuthUser) {
+    const body = await req.json();
+    const id = requireId(body?.id, 'id');
+    const action = parseChoice(body.action, ['close', 'collect'] as const, 'action');
+
+    const { data: before, error: fetchError } = await supabase.from('WasteContainer').select('*').eq('id', id).maybeSingle();
+    if (fetchError) throw new Error(`WasteContainer 조회 오류: ${fetchError.message}`);
+    if (!before) throw new HttpError(404, `폐액통(ID: ${id})을 찾을 수 없습니다.`);
+    if (action === 'close' && before.closed_at) throw new HttpError(409, `이미 닫은 폐액통입니다: ${before.name}`);
+    if (action === 'collect' && before.collected_at) throw new HttpError(409, `이미 수거된 폐액통입니다: ${before.name}`);
+
+    const now = new Date().toISOString();
+    const note = parseOptionalText(body.note);
+    const { data: after, error } = await supabase
+        .from('WasteContainer')
+        .update({
+            closed_at: before.closed_at ?? now,
+            ...(action === 'collect' ? { collected_at: now } : {}),
+            ...(note ? { note } : {}),
+        })
+        .eq('id', id)
+        .select('*')
+        .single();
+    if (error) throw new Error(`WasteContainer 수정 오류: ${error.message}`);
+
+    await recordAudit(user, { action: 'update', table: 'WasteContainer', rowId: id, before, after });
+    return jsonResponse(corsHeaders, { container: after });
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 폐기물 인계 목록 (manifest)
+// GET /inventory-disposal/manifest?format=csv|pdf|json&from=&to=&waste_container_id=
+// 기간 안의 폐기 기록을 폐액통별(폐액통을 쓰지 않았으면 처리 방법별)로 묶고, 물질별 병 수와 양을 합칩니다.
+// ------------------------------------------------------------------
+async function buildManifest(url: URL): Promise<{ period: { from: string; to: string }; groups: ManifestGroup[] }> {
+    const { period, disposals } = await fetchDisposals(url);
+
+    const containerIds = [...new Set(disposals.map((row) => row.waste_container_id).filter((id): id is number => id !== null))];
+    const containers = new Map<number, WasteContainerRow>();
+    if (containerIds.length > 0) {
+        const { data, error } = await supabase.from('WasteContainer').select('*').in('id', containerIds);
+        if (error) throw new Error(`WasteContainer 조회 오류: ${error.message}`);
+        for (const container of data as WasteContainerRow[]) containers.set(container.id, container);
+    }
+
+    const groups = new Map<string, { group: ManifestGroup; items: Map<string, { name: string; casRn: string; bottles: number; total: number; unit: string | null; dates: string[] }> }>();
+    for (const row of disposals) {
+        const container = row.waste_container_id !== null ? containers.get(row.waste_container_id) ?? null : null;
+        const groupKey = container ? `container:${container.id}` : `method:${row.method}`;
+        let entry = groups.get(groupKey);
+        if (!entry) {
+            entry = {
+                group: {
+                    title: container ? container.name : DISPOSAL_METHODS[row.method],
+                    category: container ? WASTE_CATEGORIES[container.waste_category] : '',
+                    container,
+                    items: [],
+                },
+                items: new Map(),
+            };
+            groups.set(groupKey, entry);
+        }
+
+        const substance = row.Substance;
+        // 폐액통은 폐액통 단위로 합치고, 병째 처리한 것은 병 단위가 다를 수 있어 단위별로 따로 적습니다.
+        const amount = container ? Number(row.waste_amount ?? 0) : Number(row.amount ?? 0);
+        const unit = container ? container.unit : row.unit;
+        const itemKey = `${substance?.cas_rn ?? ''}|${container ? '' : unit ?? ''}`;
+        const item = entry.items.get(itemKey) ?? { name: substance?.name ?? '', casRn: substance?.cas_rn ?? '', bottles: 0, total: 0, unit, dates: [] };
+        item.bottles++;
+        item.total += amount;
+        item.dates.push(row.disposed_on);
+        entry.items.set(itemKey, item);
+    }
+
+    const collator = new Intl.Collator('ko', { numeric: true });
+    return {
+        period,
+        groups: [...groups.values()]
+            .map(({ group, items }) => ({
+                ...group,
+                items: [...items.values()]
+                    .sort((a, b) => collator.compare(a.name || a.casRn, b.name || b.casRn))
+                    .map((item) => {
+                        const dates = item.dates.sort();
+                        return {
+                            name: item.name,
+                            casRn: item.casRn,
+                            bottles: item.bottles,
+                            amount: formatAmount(item.total, item.unit),
+                            disposedOn: dates[0] === dates.at(-1) ? dates[0] : `${dates[0]} ~ ${dates.at(-1)}`,
+                        };
+                    }),
+            }))
+            // 폐액통 묶음을 먼저, 그다음 처리 방법 묶음
+            .sort((a, b) => Number(!a.container) - Number(!b.container) || collator.compare(a.category, b.category) || collator.compare(a.title, b.title)),
+    };
+}
+
+function describeContainer(container: WasteContainerRow | null): string {
+    if (!container) return '';
+    const fill = container.capacity ? `${formatAmount(container.current_amount, null)} / ${formatAmount(container.capacity, container.unit)}` : formatAmount(container.current_amount, container.unit);
+    const status = container.collected_at
+        ? `수거 ${container.collected_at.slice(0, 10)}`
+        : container.closed_at ? `닫음 ${container.closed_at.slice(0, 10)}` : '사용 중';
+    return `${fill} (${status})`;
+}
+
+function csvCell(value: unknown): string {
+    let text = value == null ? '' : String(value);
+    // 엑셀이 수식으로 실행하지 않도록 =, +, -, @ (와 탭, CR)로 시작하는 칸은 앞에 '를 붙입니다. (숫자 열은 그대로 둡니다.)
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 엑셀에서 한글이 깨지지 않도록 UTF-8 BOM을 붙입니다.
+function renderManifestCsv(groups: ManifestGroup[]): Uint8Array {
+    const lines: unknown[][] = [['폐기물 종류', '폐액통/처리 방법', '폐액통 상태', '물질명', 'CAS RN', '병 수', '양', '폐기일']];
+    for (const group of groups) {
+        for (const item of group.items) {
+            lines.push([group.category, group.title, describeContainer(group.container), item.name, item.casRn, item.bottles, item.amount, item.disposedOn]);
+        }
+    }
+    return new TextEncoder().encode(`\uFEFF${lines.map((line) => line.map(csvCell).join(',')).join('\r\n')}\r\n`);
+}
+
+async function renderManifestPdf(groups: ManifestGroup[], period: { from: string; to: string }): Promise<Uint8Array> {
+    const PAGE_WIDTH = 595.28;
+    const PAGE_HEIGHT = 841.89;
+    const MARGIN = 40;
+    const FONT_SIZE = 8;
+    const ROW_HEIGHT = 14;
+    const COLUMNS: { key: keyof ManifestGroup['items'][number]; label: string; labelEn: string; width: number }[] = [
+        { key: 'name', label: '물질명', labelEn: 'Name', width: 200 },
+        { key: 'casRn', label: 'CAS RN', labelEn: 'CAS RN', width: 75 },
+        { key: 'bottles', label: '병 수', labelEn: 'Bottles', width: 40 },
+        { key: 'amount', label: '양', labelEn: 'Amount', width: 80 },
+        { key: 'disposedOn', label: '폐기일', labelEn: 'Disposed on', width: 120 },
+    ];
+
+    const doc = await PDFDocument.create();
+    const documentFont: DocumentFont = await embedDocumentFont(doc);
+    const { font } = documentFont;
+    const korean = documentFont.supportsKorean;
+    doc.setTitle('Waste manifest');
+
+    let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+
+    const drawText = (text: unknown, x: number, size: number, maxWidth?: number) => {
+        const safe = pdfText(text, documentFont);
+        page.drawText(maxWidth ? fitText(safe, font, size, maxWidth) : safe, { x, y, size, font, color: rgb(0, 0, 0) });
+    };
+    const drawTableHeader = () => {
+        page.drawRectangle({ x: MARGIN, y: y - 4, width: PAGE_WIDTH - MARGIN * 2, height: ROW_HEIGHT, color: rgb(0.9, 0.9, 0.9) });
+        let x = MARGIN + 2;
+        for (const column of COLUMNS) {
+            drawText(korean ? column.label : column.labelEn, x, FONT_SIZE, column.width - 4);
+            x += column.width;
+        }
+        y -= ROW_HEIGHT;
+    };
+    const ensureSpace = (height: number, withHeader: boolean) => {
+        if (y - height >= MARGIN + 12) return;
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+        if (withHeader) drawTableHeader();
+    };
+
+    drawText(korean ? '폐기물 인계 목록' : 'Waste manifest', MARGIN, 16);
+    y -= 20;
+    drawText(`${korean ? '기간' : 'Period'}: ${period.from} ~ ${period.to}`, MARGIN, 9);
+    y -= 22;
+
+    for (const group of groups) {
+        ensureSpace(ROW_HEIGHT * 4, false);
+        drawText(group.category ? `[${group.category}] ${group.title}` : group.title, MARGIN, 11);
+        y -= 14;
+        const detail = describeContainer(group.container);
+        if (detail) {
+            drawText(detail, MARGIN + 6, 8);
+            y -= 12;
+        }
+        drawTableHeader();
+        for (const item of group.items) {
+            ensureSpace(ROW_HEIGHT, true);
+            let x = MARGIN + 2;
+            for (const column of COLUMNS) {
+                drawText(item[column.key], x, FONT_SIZE, column.width - 4);
+                x += column.width;
+            }
+            y -= ROW_HEIGHT;
+        }
+        y -= 10;
+    }
+    if (groups.length === 0) drawText(korean ? '기간 안에 폐기한 병이 없습니다.' : 'No disposals in this period.', MARGIN, 10);
+
+    // 인계 확인 서명란
+    ensureSpace(60, false);
+    y -= 20;
+    drawText(korean ? '인계자:                     (서명)          인수자:                     (서명)' : 'Handed over by:                 Received by:', MARGIN, 10);
+
+    const pages = doc.getPages();
+    pages.forEach((p, index) => {
+        p.drawText(`${index + 1} / ${pages.length}`, { x: PAGE_WIDTH - MARGIN - 30, y: MARGIN / 2, size: 8, font });
+    });
+    return await doc.save();
+}
+
+async function handleGetManifest(url: URL) {
+    const format = parseChoice((url.searchParams.get('format') || 'csv').toLowerCase(), MANIFEST_FORMATS, 'format');
+    const { period, groups } = await buildManifest(url);
+    if (format === 'json') return jsonResponse(corsHeaders, { ...period, groups });
+
+    const body = format === 'csv' ? renderManifestCsv(groups) : await renderManifestPdf(groups, period);
+    const fileName = `waste-manifest-${period.from.replace(/-/g, '')}-${period.to.replace(/-/g, '')}.${format}`;
+    return new Response(new Uint8Array(body), {
+        status: 200,
+        headers: {
+            ...corsHeaders,
+            'Content-Type': CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${fileName}"`,
+            'Access-Control-Expose-Headers': 'Content-Disposition',
+        },
+    });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        const url = new URL(req.url);
+        const isContainersPath = url.pathname.endsWith('/containers');
+        // 폐기와 폐액통 관리는 staff 이상만 가능합니다.
+        const user = await authorize(req, EDITOR_ROLES);
+
+        if (req.method === 'GET') {
+            if (isContainersPath) return await handleGetContainers(url);
+            if (url.pathname.endsWith('/manifest')) return await handleGetManifest(url);
+            return await handleGetDisposals(url);
+        }
+        if (req.method === 'POST') {
+            return isContainersPath ? await handleCreateContainer(req, user) : await handleDispose(req, user);
+        }
+        if (req.method === 'PATCH' && isContainersPath) {
+            return await handleUpdateContainer(req, user);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Inventory Disposal Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
@@ -0,0 +1,348 @@
+// index.ts (Edge Function: inventory-report)
+
+import { serve } from 'std/http/server.ts';
+import { PDFDocument, PDFPage, rgb } from 'pdf-lib';
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from 'xlsx';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { authorize, EDITOR_ROLES } from '../_shared/auth.ts';
+import { formatSlotLabel } from '../_shared/cabinetSlots.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { DocumentFont, embedDocumentFont, fitText, pdfText } from '../_shared/pdf.ts';
+import { fetchAllRows, supabase } from '../_shared/supabaseClient.ts';
+
+const corsHeaders = createCorsHeaders('GET, OPTIONS');
+
+type ReportFormat = 'csv' | 'xlsx' | 'pdf';
+const REPORT_FORMATS: ReportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    pdf: 'application/pdf',
+};
+
+const UNASSIGNED_AREA = '위치 미지정';
+
+interface ReportFilters {
+    areaId: number | null;
+    cabinetId: number | null;
+    classifications: string[];
+    states: string[];
+}
+
+interface ReportRow {
+    inventoryId: number;
+    areaName: string;
+    cabinetName: string;
+    location: string;
+    casRn: string;
+    name: string;
+    formula: string;
+    currentAmount: number | null;
+    initialAmount: number | null;
+    unit: string;
+    purchaseDate: string;
+    classification: string;
+    state: string;
+}
+
+// 보고서 열 정의 (labelEn은 PDF에서 한글 글꼴을 쓸 수 없을 때 사용합니다.)
+const REPORT_COLUMNS: { key: keyof ReportRow; label: string; labelEn: string; width: number }[] = [
+    { key: 'location', label: '위치', labelEn: 'Location', width: 95 },
+    { key: 'casRn', label: 'CAS RN', labelEn: 'CAS RN', width: 70 },
+    { key: 'name', label: '물질명', labelEn: 'Name', width: 170 },
+    { key: 'formula', label: '분자식', labelEn: 'Formula', width: 75 },
+    { key: 'currentAmount', label: '잔량', labelEn: 'Remaining', width: 55 },
+    { key: 'initialAmount', label: '구입량', labelEn: 'Purchased', width: 55 },
+    { key: 'unit', label: '단위', labelEn: 'Unit', width: 35 },
+    { key: 'purchaseDate', label: '구입일', labelEn: 'Purchased on', width: 65 },
+    { key: 'classification', label: '분류', labelEn: 'Class', width: 75 },
+    { key: 'state', label: '상태', labelEn: 'State', width: 45 },
+];
+
+// ------------------------------------------------------------------
+// 요청 해석
+// ------------------------------------------------------------------
+
+function parseIdParam(url: URL, name: string): number | null {
+    const raw = url.searchParams.get(name);
+    if (raw === null) return null;
+    const id = Number(raw);
+    if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw}'`);
+    return id;
+}
+
+// ?state=액체&state=고체 또는 ?state=액체,고체 모두 받습니다.
+function parseListParam(url: URL, name: string): string[] {
+    return url.searchParams.getAll(name).flatMap((value) => value.split(',')).map((value) => value.trim()).filter((value) => value.length > 0);
+}
+
+function parseFormat(raw: string | null): ReportFormat {
+    const format = (raw || 'csv').toLowerCase();
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+        throw new HttpError(400, `알 수 없는 보고서 형식입니다: '${raw}' (사용 가능: ${REPORT_FORMATS.join(', ')})`);
+    }
+    return format as ReportFormat;
+}
+
+// ------------------------------------------------------------------
+// 데이터 조회
+// ------------------------------------------------------------------
+
+async function fetchReportRows(filters: ReportFilters): Promise<ReportRow[]> {
+    let cabinetIds: number[] | null = null;
+    if (filters.areaId !== null) {
+        const { data: cabinets, error } = await supabase.from('Cabinet').select('id').eq('area_id', filters.areaId);
+        if (error) throw new Error(`Cabinet 조회 오류: ${error.message}`);
+        if (cabinets.length === 0) return [];
+        cabinetIds = cabinets.map((cabinet) => cabinet.id);
+    }
+
+    const bottles = await fetchAllRows('Inventory', (from, to) => {
+        let query = supabase
+            .from('Inventory')
+            .select(`id, current_amount, initial_amount, unit, purchase_date, classification, state,
+                door_vertical, door_horizontal, internal_shelf_level, storage_column, cabinet_id,
+                Substance(cas_rn, name, molecular_formula),
+                Cabinet(id, name, area_id, archived_at, Area(id, name))`)
+            .is('disposed_at', null);
+        if (cabinetIds !== null) query = query.in('cabinet_id', cabinetIds);
+        if (filters.cabinetId !== null) query = query.eq('cabinet_id', filters.cabinetId);
+        if (filters.classifications.length > 0) query = query.in('classification', filters.classifications);
+        if (filters.states.length > 0) query = query.in('state', filters.states);
+        return query.order('id').range(from, to);
+    });
+
+    const rows = bottles.map((bottle): ReportRow => {
+        // 일대다 관계로 추론되는 경우를 위해 배열/객체 모두 처리합니다.
+        const substance = Array.isArray(bottle.Substance) ? bottle.Substance[0] : bottle.Substance;
+        const cabinet = Array.isArray(bottle.Cabinet) ? bottle.Cabinet[0] : bottle.Cabinet;
+        const area = cabinet ? (Array.isArray(cabinet.Area) ? cabinet.Area[0] : cabinet.Area) : null;
+        return {
+            inventoryId: bottle.id,
+            areaName: area?.name ?? UNASSIGNED_AREA,
+            cabinetName: cabinet ? `${cabinet.name}${cabinet.archived_at ? ' (보관 처리)' : ''}` : UNASSIGNED_AREA,
+            location: formatSlotLabel(bottle),
+            casRn: substance?.cas_rn ?? '',
+            name: substance?.name ?? '',
+            formula: substance?.molecular_formula ?? '',
+            currentAmount: bottle.current_amount == null ? null : Number(bottle.current_amount),
+            initialAmount: bottle.initial_amount == null ? null : Number(bottle.initial_amount),
+            unit: bottle.unit ?? '',
+            purchaseDate: bottle.purchase_date ?? '',
+            classification: bottle.classification ?? '',
+            state: bottle.state ?? '',
+        };
+    });
+
+    // 약품실 → 시약장 → 칸 → 물질명 순서로 정렬하면 그룹별로 이어서 출력할 수 있습니다.
+    const collator = new Intl.Collator('ko', { numeric: true });
+    return rows.sort((a, b) =>
+        collator.compare(a.areaName, b.areaName) ||
+        collator.compare(a.cabinetName, b.cabinetName) ||
+        collator.compare(a.location, b.location) ||
+        collator.compare(a.name || a.casRn, b.name || b.casRn)
+    );
+}
+
+// 정렬된 행을 약품실/시약장별로 묶습니다.
+function groupRows(rows: ReportRow[]): { areaName: string; cabinets: { cabinetName: string; rows: ReportRow[] }[] }[] {
+    const areas: { areaName: string; cabinets: { cabinetName: string; rows: ReportRow[] }[] }[] = [];
+    for (const row of rows) {
+        let area = areas.at(-1);
+        if (!area || area.areaName !== row.areaName) {
+            area = { areaName: row.areaName, cabinets: [] };
+            areas.push(area);
+        }
+        let cabinet = area.cabinets.at(-1);
+        if (!cabinet || cabinet.cabinetName !== row.cabinetName) {
+            cabinet = { cabinetName: row.cabinetName, rows: [] };
+            area.cabinets.push(cabinet);
+        }
+        cabinet.rows.push(row);
+    }
+    return areas;
+}
+
+function describeFilters(filters: ReportFilters): string {
+    const parts = [];
+    if (filters.classifications.length > 0) parts.push(`분류: ${filters.classifications.join(', ')}`);
+    if (filters.states.length > 0) parts.push(`상태: ${filters.states.join(', ')}`);
+    return parts.join(' / ');
+}
+
+// ------------------------------------------------------------------
+// 형식별 출력
+// ------------------------------------------------------------------
+
+function csvCell(value: unknown): string {
+    let text = value == null ? '' : String(value);
+    // 엑셀이 수식으로 실행하지 않도록 =, +, -, @ (와 탭, CR)로 시작하는 칸은 앞에 '를 붙입니다. (숫자 열은 그대로 둡니다.)
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 엑셀에서 한글이 깨지지 않도록 UTF-8 BOM을 붙입니다.
+function renderCsv(rows: ReportRow[]): Uint8Array {
+    const header = ['약품실', '시약장', ...REPORT_COLUMNS.map((column) => column.label)];
+    const lines = [header, ...rows.map((row) => [row.areaName, row.cabinetName, ...REPORT_COLUMNS.map((column) => row[column.key])])];
+    return new TextEncoder().encode(`\uFEFF${lines.map((line) => line.map(csvCell).join(',')).join('\r\n')}\r\n`);
+}
+
+function renderXlsx(rows: ReportRow[], filters: ReportFilters, generatedAt: Date): Uint8Array {
+    const workbook = XLSX.utils.book_new();
+
+    const header = ['약품실', '시약장', ...REPORT_COLUMNS.map((column) => column.label)];
+    const detailSheet = XLSX.utils.aoa_to_sheet([header, ...rows.map((row) => [row.areaName, row.cabinetName, ...REPORT_COLUMNS.map((column) => row[column.key])])]);
+    detailSheet['!cols'] = [{ wch: 14 }, { wch: 14 }, ...REPORT_COLUMNS.map((column) => ({ wch: Math.round(column.width / 5) }))];
+    detailSheet['!autofilter'] = { ref: detailSheet['!ref']! };
+    XLSX.utils.book_append_sheet(workbook, detailSheet, '재고 목록');
+
+    const summary: (string | number)[][] = [
+        ['보유 약품 현황'],
+        ['작성일', generatedAt.toISOString().slice(0, 10)],
+        ['조건', describeFilters(filters) || '전체'],
+        [],
+        ['약품실', '시약장', '병 수'],
+    ];
+    for (const area of groupRows(rows)) {
+        for (const cabinet of area.cabinets) summary.push([area.areaName, cabinet.cabinetName, cabinet.rows.length]);
+    }
+    summary.push(['합계', '', rows.length]);
+    const summarySheet = XLSX.utils.aoa_to_sheet(summary);
+    summarySheet['!cols'] = [{ wch: 16 }, { wch: 20 }, { wch: 8 }];
+    XLSX.utils.book_append_sheet(workbook, summarySheet, '요약');
+
+    return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+}
+
+// A4 가로, 약품실/시약장 제목 아래에 표를 이어서 그립니다.
+async function renderPdf(rows: ReportRow[], filters: ReportFilters, generatedAt: Date): Promise<Uint8Array> {
+    const PAGE_WIDTH = 841.89;
+    const PAGE_HEIGHT = 595.28;
+    const MARGIN = 36;
+    const FONT_SIZE = 8;
+    const ROW_HEIGHT = 14;
+
+    const doc = await PDFDocument.create();
+    const documentFont: DocumentFont = await embedDocumentFont(doc);
+    const { font } = documentFont;
+    const label = (column: typeof REPORT_COLUMNS[number]) => documentFont.supportsKorean ? column.label : column.labelEn;
+    doc.setTitle('Inventory report');
+    doc.setCreationDate(generatedAt);
+
+    let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+
+    const drawText = (text: unknown, x: number, size: number, maxWidth?: number) => {
+        const safe = pdfText(text, documentFont);
+        page.drawText(maxWidth ? fitText(safe, font, size, maxWidth) : safe, { x, y, size, font, color: rgb(0, 0, 0) });
+    };
+    const drawTableHeader = () => {
+        page.drawRectangle({ x: MARGIN, y: y - 4, width: PAGE_WIDTH - MARGIN * 2, height: ROW_HEIGHT, color: rgb(0.9, 0.9, 0.9) });
+        let x = MARGIN + 2;
+        for (const column of REPORT_COLUMNS) {
+            drawText(label(column), x, FONT_SIZE, column.width - 4);
+            x += column.width;
+        }
+        y -= ROW_HEIGHT;
+    };
+    const ensureSpace = (height: number, withHeader: boolean) => {
+        if (y - height >= MARGIN + 12) return;
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+        if (withHeader) drawTableHeader();
+    };
+
+    drawText(documentFont.supportsKorean ? '보유 약품 현황' : 'Chemical inventory report', MARGIN, 16);
+    y -= 20;
+    const filterText = describeFilters(filters);
+    drawText(`${documentFont.supportsKorean ? '작성일' : 'Generated'}: ${generatedAt.toISOString().slice(0, 10)}  /  ${rows.length}${documentFont.supportsKorean ? '병' : ' bottles'}${filterText ? `  /  ${filterText}` : ''}`, MARGIN, 9);
+    y -= 22;
+
+    for (const area of groupRows(rows)) {
+        ensureSpace(ROW_HEIGHT * 4, false);
+        drawText(area.areaName, MARGIN, 12);
+        y -= 18;
+        for (const cabinet of area.cabinets) {
+            ensureSpace(ROW_HEIGHT * 3, false);
+            drawText(`${cabinet.cabinetName} (${cabinet.rows.length})`, MARGIN + 6, 10);
+            y -= 15;
+            drawTableHeader();
+            for (const row of cabinet.rows) {
+                ensureSpace(ROW_HEIGHT, true);
+                let x = MARGIN + 2;
+                for (const column of REPORT_COLUMNS) {
+                    drawText(row[column.key], x, FONT_SIZE, column.width - 4);
+                    x += column.width;
+                }
+                y -= ROW_HEIGHT;
+            }
+            y -= 8;
+        }
+        y -= 6;
+    }
+    if (rows.length === 0) drawText(documentFont.supportsKorean ? '조건에 맞는 재고가 없습니다.' : 'No inventory matches the filters.', MARGIN, 10);
+
+    const pages = doc.getPages();
+    pages.forEach((p, index) => {
+        p.drawText(`${index + 1} / ${pages.length}`, { x: PAGE_WIDTH - MARGIN - 30, y: MARGIN / 2, size: 8, font });
+    });
+    return await doc.save();
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 보유 약품 보고서 내려받기
+// GET /inventory-report?format=csv|xlsx|pdf&area_id=1&cabinet_id=2&classification=산,염기&state=액체
+// ------------------------------------------------------------------
+async function handleGetReport(req: Request) {
+    const url = new URL(req.url);
+    const format = parseFormat(url.searchParams.get('format'));
+    const filters: ReportFilters = {
+        areaId: parseIdParam(url, 'area_id'),
+        cabinetId: parseIdParam(url, 'cabinet_id'),
+        classifications: parseListParam(url, 'classification'),
+        states: parseListParam(url, 'state'),
+    };
+
+    const rows = await fetchReportRows(filters);
+    const generatedAt = new Date();
+    const body = format === 'csv'
+        ? renderCsv(rows)
+        : format === 'xlsx'
+            ? renderXlsx(rows, filters, generatedAt)
+            : await renderPdf(rows, filters, generatedAt);
+
+    const fileName = `inventory-report-${generatedAt.toISOString().slice(0, 10).replace(/-/g, '')}.${format}`;
+    return new Response(new Uint8Array(body), {
+        status: 200,
+        headers: {
+            ...corsHeaders,
+            'Content-Type': CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${fileName}"`,
+            'Access-Control-Expose-Headers': 'Content-Disposition',
+        },
+    });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            await authorize(req, EDITOR_ROLES);
+            return await handleGetReport(req);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Inventory Report Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
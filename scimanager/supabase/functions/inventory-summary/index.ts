@@ -0,0 +1,129 @@
+// index.ts (Edge Function: inventory-summary)
+
+import { serve } from 'std/http/server.ts';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { ANY_ROLE, authorize } from '../_shared/auth.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { fetchAllRows, supabase } from '../_shared/supabaseClient.ts';
+import { calculateSoluteMassG, convertAmount, fetchDensities, normalizeAmountUnit, normalizeConcentrationUnit } from '../_shared/units.ts';
+
+const corsHeaders = createCorsHeaders('GET, OPTIONS');
+
+interface SubstanceSummary {
+    substanceId: number;
+    casRn: string;
+    name: string | null;
+    molecularMass: number | null;
+    densityGPerMl: number | null;
+    bottleCount: number;
+    // 단위 종류별 잔량 합계 (질량은 g, 부피는 mL)
+    totalMassG: number;
+    totalVolumeMl: number;
+    // 농도·밀도·분자량으로 환산한 물질(용질)의 총 질량
+    soluteMassG: number;
+    // 환산할 수 없어 soluteMassG에 포함되지 않은 병
+    unconvertedInventoryIds: number[];
+}
+
+function parseIdParam(url: URL, name: string): number | null {
+    const raw = url.searchParams.get(name);
+    if (raw === null) return null;
+    const id = Number(raw);
+    if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, `${name} 값이 올바르지 않습니다: '${raw}'`);
+    return id;
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 물질별 보유량 합계
+// GET /inventory-summary?substance_id=1&cabinet_id=2 (필터는 선택)
+// ------------------------------------------------------------------
+async function handleGetSummary(req: Request) {
+    const url = new URL(req.url);
+    const substanceId = parseIdParam(url, 'substance_id');
+    const cabinetId = parseIdParam(url, 'cabinet_id');
+
+    const bottles = await fetchAllRows('Inventory', (from, to) => {
+        let query = supabase
+            .from('Inventory')
+            .select('id, substance_id, current_amount, unit, concentration_value, concentration_unit, Substance(id, cas_rn, name, molecular_mass)')
+            .is('disposed_at', null);
+        if (substanceId !== null) query = query.eq('substance_id', substanceId);
+        if (cabinetId !== null) query = query.eq('cabinet_id', cabinetId);
+        return query.order('id').range(from, to);
+    });
+
+    const densities = await fetchDensities([...new Set(bottles.map((bottle) => bottle.substance_id as number))]);
+    const summaries = new Map<number, SubstanceSummary>();
+    const grams = normalizeAmountUnit('g')!;
+    const milliliters = normalizeAmountUnit('mL')!;
+
+    for (const bottle of bottles) {
+        // 일대다 관계로 추론되는 경우를 위해 배열/객체 모두 처리합니다.
+        const substance = Array.isArray(bottle.Substance) ? bottle.Substance[0] : bottle.Substance;
+        if (!substance) continue;
+
+        const densityGPerMl = densities.get(substance.id) ?? null;
+        let summary = summaries.get(substance.id);
+        if (!summary) {
+            summary = {
+                substanceId: substance.id,
+                casRn: substance.cas_rn,
+                name: substance.name,
+                molecularMass: substance.molecular_mass,
+                densityGPerMl,
+                bottleCount: 0,
+                totalMassG: 0,
+                totalVolumeMl: 0,
+                soluteMassG: 0,
+                unconvertedInventoryIds: [],
+            };
+            summaries.set(substance.id, summary);
+        }
+        summary.bottleCount++;
+
+        const unit = normalizeAmountUnit(bottle.unit);
+        const amount = Number(bottle.current_amount);
+        if (!unit || !Number.isFinite(amount)) {
+            summary.unconvertedInventoryIds.push(bottle.id);
+            continue;
+        }
+
+        if (unit.dimension === 'mass') summary.totalMassG += convertAmount(amount, unit, grams)!;
+        else summary.totalVolumeMl += convertAmount(amount, unit, milliliters)!;
+
+        const soluteMassG = calculateSoluteMassG({
+            amount,
+            unit,
+            concentrationValue: bottle.concentration_value == null ? null : Number(bottle.concentration_value),
+            concentrationUnit: normalizeConcentrationUnit(bottle.concentration_unit),
+            molecularMass: substance.molecular_mass,
+            densityGPerMl,
+        });
+        if (soluteMassG == null) summary.unconvertedInventoryIds.push(bottle.id);
+        else summary.soluteMassG += soluteMassG;
+    }
+
+    const substances = [...summaries.values()].sort((a, b) => (a.name ?? a.casRn).localeCompare(b.name ?? b.casRn));
+    return jsonResponse(corsHeaders, { substances });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            await authorize(req, ANY_ROLE);
+            return await handleGetSummary(req);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Inventory Summary Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
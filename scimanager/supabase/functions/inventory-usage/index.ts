@@ -0,0 +1,147 @@
+// index.ts (Edge Function: inventory-usage)
+
+import { serve } from 'std/http/server.ts';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { ANY_ROLE, AuthUser, authorize, EDITOR_ROLES } from '../_shared/auth.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { supabase } from '../_shared/supabaseClient.ts';
+import { convertAmount, fetchDensities, normalizeAmountUnit, requireAmountUnit } from '../_shared/units.ts';
+
+const corsHeaders = createCorsHeaders('POST, GET, OPTIONS');
+
+// record_inventory_usage 함수가 던지는 오류 코드 → HTTP 상태 코드
+const RPC_ERROR_STATUS: Record<string, number> = {
+    '22023': 400, // 잘못된 사용량/단위
+    'P0002': 404, // 재고 없음
+    '55000': 409, // 폐기한 병
+    '23514': 409, // 잔량 부족
+};
+
+// ------------------------------------------------------------------
+// 요청 해석
+// ------------------------------------------------------------------
+
+function parseOptionalText(raw: unknown, name: string): string | null {
+    if (raw == null) return null;
+    if (typeof raw !== 'string') throw new HttpError(400, `${name} 값은 문자열이어야 합니다.`);
+    return raw.trim() || null;
+}
+
+// 없으면 지금 시각을 씁니다.
+function parseUsedAt(raw: unknown): string {
+    if (raw == null || raw === '') return new Date().toISOString();
+    const date = typeof raw === 'string' ? new Date(raw) : null;
+    if (!date || Number.isNaN(date.getTime())) throw new HttpError(400, `used_at 날짜 형식이 올바르지 않습니다: '${raw}'`);
+    return date.toISOString();
+}
+
+// ------------------------------------------------------------------
+// POST 로직: 사용 기록 추가 및 잔량 차감
+// 요청 형식: { inventory_id, amount, unit, used_by?, purpose?, used_at? } (used_by가 없으면 로그인한 사용자의 이메일)
+// unit은 병의 단위와 달라도 환산할 수 있으면 됩니다. (질량 ↔ 부피는 밀도가 있을 때만)
+// ------------------------------------------------------------------
+async function handleRecordUsage(req: Request, user: AuthUser) {
+    const usageData = await req.json();
+    const inventoryId = Number(usageData?.inventory_id);
+    const amount = Number(usageData?.amount);
+    const usedBy = parseOptionalText(usageData?.used_by, 'used_by') || user.email || '';
+    const purpose = parseOptionalText(usageData?.purpose, 'purpose');
+    const usedAt = parseUsedAt(usageData?.used_at);
+
+    if (!Number.isInteger(inventoryId) || inventoryId <= 0) throw new HttpError(400, '재고 ID(inventory_id)가 필요합니다.');
+    if (!Number.isFinite(amount) || amount <= 0) throw new HttpError(400, '사용량(amount)은 0보다 큰 숫자여야 합니다.');
+    if (usedBy.length === 0) throw new HttpError(400, '사용자(used_by)가 필요합니다.');
+    const requestUnit = requireAmountUnit(usageData?.unit);
+
+    // 요청 단위를 병에 기록된 단위로 환산합니다. (예: 병은 L, 사용량은 mL)
+    const { data: inventory, error: inventoryError } = await supabase
+        .from('Inventory')
+        .select('id, substance_id, unit, cabinet_id')
+        .eq('id', inventoryId)
+        .maybeSingle();
+    if (inventoryError) throw new Error(`Inventory 조회 오류: ${inventoryError.message}`);
+    if (!inventory) throw new HttpError(404, `재고(ID: ${inventoryId})를 찾을 수 없습니다.`);
+
+    const inventoryUnit = normalizeAmountUnit(inventory.unit);
+    if (!inventoryUnit) throw new HttpError(409, `재고(ID: ${inventoryId})의 단위('${inventory.unit}')를 인식할 수 없습니다.`);
+
+    const densities = requestUnit.dimension === inventoryUnit.dimension ? new Map<number, number>() : await fetchDensities([inventory.substance_id]);
+    const amountInInventoryUnit = convertAmount(amount, requestUnit, inventoryUnit, densities.get(inventory.substance_id));
+    if (amountInInventoryUnit == null) {
+        throw new HttpError(400, `${requestUnit.symbol}을(를) ${inventoryUnit.symbol}(으)로 환산할 수 없습니다. (밀도 정보 없음)`);
+    }
+
+    const { data: usage, error } = await supabase.rpc('record_inventory_usage', {
+        p_inventory_id: inventoryId,
+        p_amount: amountInInventoryUnit,
+        p_unit: inventory.unit,
+        p_used_by: usedBy,
+        p_purpose: purpose,
+        p_used_at: usedAt,
+        p_recorded_by: user.id,
+    });
+    if (error) throw new HttpError(RPC_ERROR_STATUS[error.code] ?? 500, `사용 기록 오류: ${error.message}`);
+
+    await recordAudit(user, {
+        action: 'update',
+        table: 'Inventory',
+        rowId: inventoryId,
+        before: { cabinet_id: inventory.cabinet_id, current_amount: Number(usage.remaining_amount) + Number(usage.amount), unit: inventory.unit },
+        after: { cabinet_id: inventory.cabinet_id, current_amount: usage.remaining_amount, unit: inventory.unit, usage_history_id: usage.id },
+    });
+
+    return jsonResponse(corsHeaders, { status: 'success', usage }, 201);
+}
+
+// ------------------------------------------------------------------
+// GET 로직: 병 한 개의 사용 이력 조회
+// GET /inventory-usage?inventory_id=123
+// ------------------------------------------------------------------
+async function handleGetUsageHistory(req: Request) {
+    const url = new URL(req.url);
+    const inventoryId = Number(url.searchParams.get('inventory_id'));
+    if (!Number.isInteger(inventoryId) || inventoryId <= 0) throw new HttpError(400, '재고 ID(inventory_id)가 필요합니다.');
+
+    const { data: inventory, error: inventoryError } = await supabase
+        .from('Inventory')
+        .select('id, bottle_identifier, initial_amount, current_amount, unit')
+        .eq('id', inventoryId)
+        .maybeSingle();
+    if (inventoryError) throw new Error(`Inventory 조회 오류: ${inventoryError.message}`);
+    if (!inventory) throw new HttpError(404, `재고(ID: ${inventoryId})를 찾을 수 없습니다.`);
+
+    const { data: history, error: historyError } = await supabase
+        .from('UsageHistory')
+        .select('id, amount, unit, used_by, purpose, used_at, remaining_amount, recorded_by')
+        .eq('inventory_id', inventoryId)
+        .order('used_at', { ascending: false });
+    if (historyError) throw new Error(`UsageHistory 조회 오류: ${historyError.message}`);
+
+    return jsonResponse(corsHeaders, { inventory, history });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            await authorize(req, ANY_ROLE);
+            return await handleGetUsageHistory(req);
+        }
+        if (req.method === 'POST') {
+            const user = await authorize(req, EDITOR_ROLES);
+            return await handleRecordUsage(req, user);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Inventory Usage Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
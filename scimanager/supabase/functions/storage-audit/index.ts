@@ -0,0 +1,82 @@
+// index.ts (Edge Function: storage-audit)
+
+import { serve } from 'std/http/server.ts';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { ANY_ROLE, authorize } from '../_shared/auth.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { supabase } from '../_shared/supabaseClient.ts';
+import { auditPlacements, CompatibilityViolation, fetchPlacements, StoredPlacement } from '../_shared/compatibility.ts';
+
+const corsHeaders = createCorsHeaders('GET, OPTIONS');
+
+// ------------------------------------------------------------------
+// GET 로직: 약품실(Area)별 보관 호환성 위반 목록
+// GET /storage-audit?area_id=1 (area_id가 없으면 전체)
+// ------------------------------------------------------------------
+async function handleStorageAudit(req: Request) {
+    const url = new URL(req.url);
+    const rawAreaId = url.searchParams.get('area_id');
+    const areaId = rawAreaId === null ? null : Number(rawAreaId);
+    if (areaId !== null && (!Number.isInteger(areaId) || areaId <= 0)) throw new HttpError(400, `area_id 값이 올바르지 않습니다: '${rawAreaId}'`);
+
+    let areaQuery = supabase.from('Area').select('id, name');
+    if (areaId !== null) areaQuery = areaQuery.eq('id', areaId);
+    const { data: areas, error: areaError } = await areaQuery;
+    if (areaError) throw new Error(`Area 조회 오류: ${areaError.message}`);
+    if (areaId !== null && areas.length === 0) throw new HttpError(404, `Area(ID: ${areaId})를 찾을 수 없습니다.`);
+
+    const { data: cabinets, error: cabinetError } = await supabase
+        .from('Cabinet')
+        .select('id, area_id, name')
+        .in('area_id', areas.map((area) => area.id));
+    if (cabinetError) throw new Error(`Cabinet 조회 오류: ${cabinetError.message}`);
+
+    const placementsByCabinet = new Map<number, StoredPlacement[]>();
+    for (const placement of await fetchPlacements(cabinets.map((cabinet) => cabinet.id))) {
+        const placements = placementsByCabinet.get(placement.cabinetId) ?? [];
+        placements.push(placement);
+        placementsByCabinet.set(placement.cabinetId, placements);
+    }
+
+    const report = areas.map((area) => {
+        const cabinetReports = cabinets
+            .filter((cabinet) => cabinet.area_id === area.id)
+            .map((cabinet) => ({
+                cabinetId: cabinet.id,
+                cabinetName: cabinet.name,
+                violations: auditPlacements(placementsByCabinet.get(cabinet.id) ?? []),
+            }))
+            .filter((cabinet) => cabinet.violations.length > 0);
+        const violations: CompatibilityViolation[] = cabinetReports.flatMap((cabinet) => cabinet.violations);
+        return {
+            areaId: area.id,
+            areaName: area.name,
+            violationCount: violations.length,
+            rejectCount: violations.filter((v) => v.severity === 'reject').length,
+            cabinets: cabinetReports,
+        };
+    });
+
+    return jsonResponse(corsHeaders, { areas: report });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'GET') {
+            await authorize(req, ANY_ROLE);
+            return await handleStorageAudit(req);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Storage Audit Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
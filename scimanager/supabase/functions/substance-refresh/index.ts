@@ -0,0 +1,213 @@
+// index.ts (Edge Function: substance-refresh)
+
+import { serve } from 'std/http/server.ts';
+import { createCorsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { ADMIN_ONLY, AuthUser, authorize } from '../_shared/auth.ts';
+import {
+    CasCitation,
+    citationKey,
+    fetchCasDetail,
+    normalizeCasRn,
+    PropertyRecord,
+    propertyKey,
+    SubstanceDetailRecords,
+    SubstanceRecord,
+    toSubstanceRecords,
+} from '../_shared/casClient.ts';
+import { getErrorMessage, getErrorStatus, HttpError } from '../_shared/errors.ts';
+import { supabase } from '../_shared/supabaseClient.ts';
+
+const corsHeaders = createCorsHeaders('POST, OPTIONS');
+
+const DEFAULT_BATCH_SIZE = 20;
+const MAX_BATCH_SIZE = 100;
+
+const SUBSTANCE_FIELDS: (keyof SubstanceRecord)[] = ['name', 'uri', 'inchikey', 'molecular_formula', 'molecular_mass', 'has_molfile', 'svg_image'];
+
+interface SubstanceChanges {
+    fields: Record<string, { before: unknown; after: unknown }>;
+    synonyms: { added: string[]; removed: string[] };
+    properties: { added: PropertyRecord[]; updated: { before: PropertyRecord; after: PropertyRecord }[]; removed: PropertyRecord[] };
+    citations: { added: CasCitation[]; removed: CasCitation[] };
+}
+
+type RefreshResult =
+    | { substanceId: number; casRn: string; status: 'updated' | 'unchanged'; changes: SubstanceChanges }
+    | { substanceId: number; casRn: string; status: 'error'; error: string; statusCode: number };
+
+// ------------------------------------------------------------------
+// 비교 로직
+// ------------------------------------------------------------------
+
+function hasChanges(changes: SubstanceChanges): boolean {
+    return Object.keys(changes.fields).length > 0 ||
+        changes.synonyms.added.length + changes.synonyms.removed.length > 0 ||
+        changes.properties.added.length + changes.properties.updated.length + changes.properties.removed.length > 0 ||
+        changes.citations.added.length + changes.citations.removed.length > 0;
+}
+
+// 저장된 값과 CAS에서 새로 받은 값을 비교합니다. 키가 같은 행은 그대로 두므로 중복이 생기지 않습니다.
+function diffSubstance(
+    current: Record<string, unknown>,
+    stored: { synonyms: string[]; properties: PropertyRecord[]; citations: CasCitation[] },
+    fresh: SubstanceDetailRecords,
+): SubstanceChanges {
+    const fields: SubstanceChanges['fields'] = {};
+    for (const field of SUBSTANCE_FIELDS) {
+        const before = current[field] ?? null;
+        const after = fresh.substance[field];
+        // numeric 컬럼은 문자열로 올 수 있어 숫자로 비교합니다.
+        const same = field === 'molecular_mass' ? (before === null ? after === null : Number(before) === after) : before === after;
+        if (!same) fields[field] = { before, after };
+    }
+
+    const storedSynonyms = new Set(stored.synonyms);
+    const freshSynonyms = new Set(fresh.synonyms);
+
+    const storedProperties = new Map(stored.properties.map((p) => [propertyKey(p), p]));
+    const freshProperties = new Map(fresh.properties.map((p) => [propertyKey(p), p]));
+    const updatedProperties: SubstanceChanges['properties']['updated'] = [];
+    for (const [key, p] of freshProperties) {
+        const old = storedProperties.get(key);
+        if (old && (old.units ?? null) !== (p.units ?? null)) {
+            updatedProperties.push({ before: { name: old.name, property: old.property, units: old.units, type: old.type }, after: p });
+        }
+    }
+
+    const storedCitations = new Map(stored.citations.map((c) => [citationKey(c), c]));
+    const freshCitations = new Map(fresh.citations.map((c) => [citationKey(c), c]));
+
+    return {
+        fields,
+        synonyms: {
+            added: fresh.synonyms.filter((name) => !storedSynonyms.has(name)),
+            removed: stored.synonyms.filter((name) => !freshSynonyms.has(name)),
+        },
+        properties: {
+            added: [...freshProperties].filter(([key]) => !storedProperties.has(key)).map(([, p]) => p),
+            updated: updatedProperties,
+            removed: [...storedProperties].filter(([key]) => !freshProperties.has(key))
+                .map(([, p]) => ({ name: p.name, property: p.property, units: p.units, type: p.type })),
+        },
+        citations: {
+            added: [...freshCitations].filter(([key]) => !storedCitations.has(key)).map(([, c]) => c),
+            removed: [...storedCitations].filter(([key]) => !freshCitations.has(key)).map(([, c]) => ({ source: c.source, url: c.url })),
+        },
+    };
+}
+
+// ------------------------------------------------------------------
+// DB 반영
+// ------------------------------------------------------------------
+
+async function fetchStoredDetails(substanceId: number) {
+    const [synonyms, properties, citations] = await Promise.all([
+        supabase.from('Synonyms').select('name').eq('substance_id', substanceId),
+        supabase.from('Properties').select('name, property, units, type').eq('substance_id', substanceId),
+        supabase.from('Citations').select('source, url').eq('substance_id', substanceId),
+    ]);
+    if (synonyms.error) throw new Error(`Synonyms 조회 오류: ${synonyms.error.message}`);
+    if (properties.error) throw new Error(`Properties 조회 오류: ${properties.error.message}`);
+    if (citations.error) throw new Error(`Citations 조회 오류: ${citations.error.message}`);
+    return {
+        synonyms: synonyms.data.map((row) => row.name as string),
+        properties: properties.data as PropertyRecord[],
+        citations: citations.data as CasCitation[],
+    };
+}
+
+// 변경 내용과 감사 로그를 apply_substance_refresh 함수로 한 트랜잭션에서 반영합니다. (중간에 실패해도 일부만 바뀌지 않습니다.)
+async function applyChanges(substanceId: number, changes: SubstanceChanges, user: AuthUser) {
+    const { error } = await supabase.rpc('apply_substance_refresh', {
+        p_substance_id: substanceId,
+        p_changes: changes,
+        p_actor_id: user.id,
+        p_actor_email: user.email,
+        p_actor_role: user.role,
+    });
+    if (error) throw new HttpError(error.code === 'P0002' ? 404 : 500, `물질 새로고침 반영 오류: ${error.message}`);
+}
+
+async function refreshSubstance(substance: Record<string, unknown> & { id: number; cas_rn: string }, dryRun: boolean, user: AuthUser): Promise<RefreshResult> {
+    const fresh = toSubstanceRecords(await fetchCasDetail(substance.cas_rn, { fresh: true }));
+    const stored = await fetchStoredDetails(substance.id);
+    const changes = diffSubstance(substance, stored, fresh);
+
+    if (!dryRun) await applyChanges(substance.id, changes, user);
+    return { substanceId: substance.id, casRn: substance.cas_rn, status: hasChanges(changes) ? 'updated' : 'unchanged', changes };
+}
+
+// ------------------------------------------------------------------
+// POST 로직: CAS 정보 새로고침
+// 요청 형식: { substance_ids?: number[], cas_rns?: string[], limit?: number, dry_run?: boolean }
+// 대상을 지정하지 않으면 가장 오래전에 새로고침한 물질부터 limit개(기본 20, 최대 100)를 처리합니다.
+// dry_run이면 바뀔 내용만 보고하고 저장하지 않습니다.
+// ------------------------------------------------------------------
+async function handleRefresh(req: Request, user: AuthUser) {
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dry_run === true;
+
+    const substanceIds: number[] = Array.isArray(body?.substance_ids) ? body.substance_ids.map(Number) : [];
+    if (substanceIds.some((id) => !Number.isInteger(id) || id <= 0)) throw new HttpError(400, 'substance_ids 값이 올바르지 않습니다.');
+    const casRns: string[] = Array.isArray(body?.cas_rns) ? body.cas_rns.map((casRn: string) => normalizeCasRn(casRn)) : [];
+
+    const limit = body?.limit === undefined ? DEFAULT_BATCH_SIZE : Number(body.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE) throw new HttpError(400, `limit은 1~${MAX_BATCH_SIZE} 사이의 정수여야 합니다.`);
+
+    let query = supabase.from('Substance').select('*');
+    if (substanceIds.length > 0 || casRns.length > 0) {
+        const filters = [];
+        if (substanceIds.length > 0) filters.push(`id.in.(${substanceIds.join(',')})`);
+        if (casRns.length > 0) filters.push(`cas_rn.in.(${casRns.join(',')})`);
+        query = query.or(filters.join(','));
+    } else {
+        query = query.order('refreshed_at', { ascending: true, nullsFirst: true }).order('id').limit(limit);
+    }
+    const { data: substances, error } = await query;
+    if (error) throw new Error(`Substance 조회 오류: ${error.message}`);
+    if (substances.length > MAX_BATCH_SIZE) throw new HttpError(400, `한 번에 ${MAX_BATCH_SIZE}개까지만 새로고침할 수 있습니다.`);
+
+    // CAS API 호출 한도를 넘지 않도록 한 개씩 순서대로 처리하고, 한 물질이 실패해도 나머지는 계속합니다.
+    const results: RefreshResult[] = [];
+    for (const substance of substances) {
+        try {
+            results.push(await refreshSubstance(substance, dryRun, user));
+        } catch (e) {
+            const errorMessage = getErrorMessage(e);
+            console.error(`물질 새로고침 오류 (${substance.cas_rn}):`, errorMessage);
+            results.push({ substanceId: substance.id, casRn: substance.cas_rn, status: 'error', error: errorMessage, statusCode: getErrorStatus(e) });
+        }
+    }
+
+    return jsonResponse(corsHeaders, {
+        dryRun,
+        summary: {
+            total: results.length,
+            updated: results.filter((r) => r.status === 'updated').length,
+            unchanged: results.filter((r) => r.status === 'unchanged').length,
+            failed: results.filter((r) => r.status === 'error').length,
+        },
+        results,
+    });
+}
+
+// ------------------------------------------------------------------
+// 메인 라우터 함수
+// ------------------------------------------------------------------
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+        if (req.method === 'POST') {
+            const user = await authorize(req, ADMIN_ONLY);
+            return await handleRefresh(req, user);
+        }
+        return jsonResponse(corsHeaders, { error: "Method Not Allowed" }, 405);
+    } catch (e) {
+        const errorMessage = getErrorMessage(e);
+        console.error('Substance Refresh Fatal Error:', errorMessage);
+        return jsonResponse(corsHeaders, { error: errorMessage }, getErrorStatus(e));
+    }
+});
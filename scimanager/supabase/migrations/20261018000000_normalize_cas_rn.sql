@@ -0,0 +1,48 @@
+-- 예전에 입력한 그대로 저장된 CAS RN("64175", " 64-17-5 " 등)을 "64-17-5" 형식으로 바꿉니다.
+-- casimport는 정규화한 CAS RN으로 찾으므로, 바꾸지 않으면 기존 물질을 찾지 못하고 같은 물질이 새로 만들어집니다.
+
+-- _shared/casClient.ts 의 normalizeCasRn과 같은 규칙입니다. 형식이나 체크 디지트가 맞지 않으면 null을 돌려줍니다.
+create or replace function public.normalize_cas_rn(p_input text) returns text
+language plpgsql
+immutable
+as $$
+declare
+    v_digits text := regexp_replace(coalesce(p_input, ''), '[\s-]', '', 'g');
+    v_sum integer := 0;
+begin
+    if v_digits !~ '^\d{5,10}$' then
+        return null;
+    end if;
+
+    -- 체크 디지트 바로 앞 자리부터 1, 2, 3... 의 가중치를 곱합니다.
+    for i in 1 .. length(v_digits) - 1 loop
+        v_sum := v_sum + substr(v_digits, length(v_digits) - i, 1)::integer * i;
+    end loop;
+    if v_sum % 10 <> right(v_digits, 1)::integer then
+        return null;
+    end if;
+
+    -- 앞자리의 불필요한 0은 제거합니다. (예: 0064-17-5 → 64-17-5)
+    return regexp_replace(
+        left(v_digits, -3) || '-' || substr(v_digits, length(v_digits) - 2, 2) || '-' || right(v_digits, 1),
+        '^0+(?=\d{2,}-)', ''
+    );
+end;
+$$;
+
+update public."Substance"
+    set cas_rn = public.normalize_cas_rn(cas_rn)
+    where public.normalize_cas_rn(cas_rn) is not null
+      and cas_rn <> public.normalize_cas_rn(cas_rn);
+
+-- 병 식별자는 `${CAS RN}-${uuid}` 형식이라 앞부분의 CAS RN만 바꿉니다.
+update public."Inventory"
+    set bottle_identifier = public.normalize_cas_rn(m[1]) || '-' || m[2]
+    from (
+        select id, regexp_match(btrim(bottle_identifier), '^(.+)-([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})$') as m
+        from public."Inventory"
+        where bottle_identifier is not null
+    ) parsed
+    where public."Inventory".id = parsed.id
+      and public.normalize_cas_rn(m[1]) is not null
+      and bottle_identifier <> public.normalize_cas_rn(m[1]) || '-' || m[2];
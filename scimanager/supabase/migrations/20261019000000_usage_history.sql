@@ -0,0 +1,66 @@
+-- 시약 사용(출고) 기록 테이블과 잔량 차감 함수
+
+create table if not exists public."UsageHistory" (
+    id bigint generated by default as identity primary key,
+    inventory_id bigint not null references public."Inventory"(id) on delete cascade,
+    amount numeric not null check (amount > 0),
+    unit text not null,
+    used_by text not null,
+    purpose text,
+    used_at timestamptz not null default now(),
+    remaining_amount numeric not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists "UsageHistory_inventory_id_used_at_idx"
+    on public."UsageHistory" (inventory_id, used_at desc);
+
+alter table public."UsageHistory" enable row level security;
+
+-- 사용 기록 삽입과 Inventory.current_amount 차감을 한 트랜잭션에서 처리합니다.
+-- 잔량보다 많이 사용하려 하면 23514(check_violation) 오류로 거부합니다.
+create or replace function public.record_inventory_usage(
+    p_inventory_id bigint,
+    p_amount numeric,
+    p_unit text,
+    p_used_by text,
+    p_purpose text default null,
+    p_used_at timestamptz default now()
+) returns public."UsageHistory"
+language plpgsql
+as $$
+declare
+    v_inventory public."Inventory";
+    v_usage public."UsageHistory";
+begin
+    if p_amount is null or p_amount <= 0 then
+        raise exception using errcode = '22023', message = '사용량은 0보다 커야 합니다.';
+    end if;
+
+    select * into v_inventory from public."Inventory" where id = p_inventory_id for update;
+    if not found then
+        raise exception using errcode = 'P0002', message = format('재고(ID: %s)를 찾을 수 없습니다.', p_inventory_id);
+    end if;
+
+    if v_inventory.unit is distinct from p_unit then
+        raise exception using errcode = '22023',
+            message = format('단위가 일치하지 않습니다. (재고: %s, 요청: %s)', v_inventory.unit, p_unit);
+    end if;
+
+    if coalesce(v_inventory.current_amount, 0) < p_amount then
+        raise exception using errcode = '23514',
+            message = format('잔량(%s %s)보다 많이 사용할 수 없습니다.', coalesce(v_inventory.current_amount, 0), v_inventory.unit);
+    end if;
+
+    update public."Inventory"
+        set current_amount = current_amount - p_amount
+        where id = p_inventory_id
+        returning * into v_inventory;
+
+    insert into public."UsageHistory" (inventory_id, amount, unit, used_by, purpose, used_at, remaining_amount)
+        values (p_inventory_id, p_amount, p_unit, p_used_by, p_purpose, coalesce(p_used_at, now()), v_inventory.current_amount)
+        returning * into v_usage;
+
+    return v_usage;
+end;
+$$;
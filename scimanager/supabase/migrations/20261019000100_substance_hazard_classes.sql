@@ -0,0 +1,12 @@
+-- 보관 호환성(혼합 금지) 판정에 쓰는 물질별 위험 분류
+-- 값: acid, base, oxidizer, flammable, reducer, water_reactive, toxic
+
+alter table public."Substance"
+    add column if not exists hazard_classes text[] not null default '{}';
+
+alter table public."Substance"
+    drop constraint if exists "Substance_hazard_classes_check";
+
+alter table public."Substance"
+    add constraint "Substance_hazard_classes_check"
+    check (hazard_classes <@ array['acid', 'base', 'oxidizer', 'flammable', 'reducer', 'water_reactive', 'toxic']::text[]);
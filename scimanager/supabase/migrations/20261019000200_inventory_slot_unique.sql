@@ -0,0 +1,10 @@
+-- 한 칸(시약장/문/선반/열)에는 병 하나만 둘 수 있습니다.
+-- 기존 데이터에 같은 칸을 쓰는 병이 있으면 이 마이그레이션 전에 위치를 정리해야 합니다.
+
+create unique index if not exists "Inventory_slot_unique"
+    on public."Inventory" (cabinet_id, door_vertical, door_horizontal, internal_shelf_level, storage_column)
+    where cabinet_id is not null
+      and door_vertical is not null
+      and door_horizontal is not null
+      and internal_shelf_level is not null
+      and storage_column is not null;
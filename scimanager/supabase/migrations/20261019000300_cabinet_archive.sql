@@ -0,0 +1,4 @@
+-- 병이 남아 있는 시약장을 지우지 않고 보관 처리(archive)하기 위한 컬럼
+
+alter table public."Cabinet"
+    add column if not exists archived_at timestamptz;
@@ -0,0 +1,84 @@
+-- 사용자 역할(app_metadata.role)과 등록자 기록
+
+alter table public."Inventory"
+    add column if not exists created_by uuid references auth.users(id) on delete set null;
+
+alter table public."Cabinet"
+    add column if not exists created_by uuid references auth.users(id) on delete set null;
+
+alter table public."UsageHistory"
+    add column if not exists recorded_by uuid references auth.users(id) on delete set null;
+
+-- 사용 기록에 기록한 사용자(recorded_by)를 함께 저장합니다.
+drop function if exists public.record_inventory_usage(bigint, numeric, text, text, text, timestamptz);
+
+create or replace function public.record_inventory_usage(
+    p_inventory_id bigint,
+    p_amount numeric,
+    p_unit text,
+    p_used_by text,
+    p_purpose text default null,
+    p_used_at timestamptz default now(),
+    p_recorded_by uuid default null
+) returns public."UsageHistory"
+language plpgsql
+as $$
+declare
+    v_inventory public."Inventory";
+    v_usage public."UsageHistory";
+begin
+    if p_amount is null or p_amount <= 0 then
+        raise exception using errcode = '22023', message = '사용량은 0보다 커야 합니다.';
+    end if;
+
+    select * into v_inventory from public."Inventory" where id = p_inventory_id for update;
+    if not found then
+        raise exception using errcode = 'P0002', message = format('재고(ID: %s)를 찾을 수 없습니다.', p_inventory_id);
+    end if;
+
+    if v_inventory.unit is distinct from p_unit then
+        raise exception using errcode = '22023',
+            message = format('단위가 일치하지 않습니다. (재고: %s, 요청: %s)', v_inventory.unit, p_unit);
+    end if;
+
+    if coalesce(v_inventory.current_amount, 0) < p_amount then
+        raise exception using errcode = '23514',
+            message = format('잔량(%s %s)보다 많이 사용할 수 없습니다.', coalesce(v_inventory.current_amount, 0), v_inventory.unit);
+    end if;
+
+    update public."Inventory"
+        set current_amount = current_amount - p_amount
+        where id = p_inventory_id
+        returning * into v_inventory;
+
+    insert into public."UsageHistory" (inventory_id, amount, unit, used_by, purpose, used_at, remaining_amount, recorded_by)
+        values (p_inventory_id, p_amount, p_unit, p_used_by, p_purpose, coalesce(p_used_at, now()), v_inventory.current_amount, p_recorded_by)
+        returning * into v_usage;
+
+    return v_usage;
+end;
+$$;
+
+-- 관리자가 SQL 편집기에서 역할을 지정할 때 사용합니다.
+-- 예: select public.set_user_role('teacher@school.kr', 'admin');
+create or replace function public.set_user_role(p_email text, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+begin
+    if p_role not in ('admin', 'staff', 'student') then
+        raise exception using errcode = '22023', message = format('알 수 없는 역할입니다: %s', p_role);
+    end if;
+
+    update auth.users
+        set raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('role', p_role)
+        where email = p_email;
+    if not found then
+        raise exception using errcode = 'P0002', message = format('사용자를 찾을 수 없습니다: %s', p_email);
+    end if;
+end;
+$$;
+
+revoke all on function public.set_user_role(text, text) from public, anon, authenticated;
@@ -0,0 +1,22 @@
+-- 엣지 함수가 수행한 모든 변경(Area/Cabinet/Inventory/Substance)의 감사 로그
+
+create table if not exists public."AuditLog" (
+    id bigint generated by default as identity primary key,
+    created_at timestamptz not null default now(),
+    actor_id uuid references auth.users(id) on delete set null,
+    actor_email text,
+    actor_role text,
+    action text not null check (action in ('insert', 'update', 'delete')),
+    table_name text not null,
+    row_id text not null,
+    cabinet_ids bigint[] not null default '{}',
+    before jsonb,
+    after jsonb
+);
+
+create index if not exists "AuditLog_created_at_idx" on public."AuditLog" (created_at desc);
+create index if not exists "AuditLog_actor_id_idx" on public."AuditLog" (actor_id, created_at desc);
+create index if not exists "AuditLog_cabinet_ids_idx" on public."AuditLog" using gin (cabinet_ids);
+create index if not exists "AuditLog_table_row_idx" on public."AuditLog" (table_name, row_id);
+
+alter table public."AuditLog" enable row level security;
@@ -0,0 +1,176 @@
+-- 병 등록을 한 트랜잭션으로 처리하는 함수와 재전송(idempotency) 기록 테이블
+
+-- 예전 등록 코드는 물질이 있는지 확인한 뒤 넣었기 때문에, 동시에 등록하면 같은 CAS RN의 물질이 여러 개 생길 수 있었습니다.
+-- 유일 인덱스를 만들기 전에 중복 물질을 가장 먼저 만든 행으로 합칩니다. (CAS RN 형식은 20261018000000에서 이미 정규화했습니다.)
+create temporary table "SubstanceMerge" as
+    select id, keep_id
+    from (select id, min(id) over (partition by cas_rn) as keep_id from public."Substance" where cas_rn is not null) s
+    where id <> keep_id;
+
+update public."Inventory" t set substance_id = m.keep_id from "SubstanceMerge" m where t.substance_id = m.id;
+update public."Synonyms" t set substance_id = m.keep_id from "SubstanceMerge" m where t.substance_id = m.id;
+update public."Properties" t set substance_id = m.keep_id from "SubstanceMerge" m where t.substance_id = m.id;
+update public."Citations" t set substance_id = m.keep_id from "SubstanceMerge" m where t.substance_id = m.id;
+
+-- 위험 분류는 합치고, 남길 행에 비어 있는 CAS 정보는 중복 행의 값으로 채웁니다.
+update public."Substance" s
+    set hazard_classes = merged.hazard_classes,
+        name = coalesce(s.name, merged.name),
+        uri = coalesce(s.uri, merged.uri),
+        inchikey = coalesce(s.inchikey, merged.inchikey),
+        molecular_formula = coalesce(s.molecular_formula, merged.molecular_formula),
+        molecular_mass = coalesce(s.molecular_mass, merged.molecular_mass),
+        svg_image = coalesce(s.svg_image, merged.svg_image)
+    from (
+        select m.keep_id,
+            array(
+                select distinct c
+                from public."Substance" x cross join unnest(x.hazard_classes) as c
+                where x.id = m.keep_id or x.id in (select id from "SubstanceMerge" where keep_id = m.keep_id)
+                order by c
+            ) as hazard_classes,
+            (array_agg(d.name order by d.id) filter (where d.name is not null))[1] as name,
+            (array_agg(d.uri order by d.id) filter (where d.uri is not null))[1] as uri,
+            (array_agg(d.inchikey order by d.id) filter (where d.inchikey is not null))[1] as inchikey,
+            (array_agg(d.molecular_formula order by d.id) filter (where d.molecular_formula is not null))[1] as molecular_formula,
+            (array_agg(d.molecular_mass order by d.id) filter (where d.molecular_mass is not null))[1] as molecular_mass,
+            (array_agg(d.svg_image order by d.id) filter (where d.svg_image is not null))[1] as svg_image
+        from "SubstanceMerge" m
+        join public."Substance" d on d.id = m.id
+        group by m.keep_id
+    ) merged
+    where s.id = merged.keep_id;
+
+delete from public."Substance" s using "SubstanceMerge" m where s.id = m.id;
+
+drop table "SubstanceMerge";
+
+create unique index if not exists "Substance_cas_rn_key" on public."Substance" (cas_rn);
+
+create table if not exists public."RegistrationRequest" (
+    user_id uuid not null references auth.users(id) on delete cascade,
+    idempotency_key text not null,
+    inventory_id bigint references public."Inventory"(id) on delete set null,
+    response jsonb not null,
+    created_at timestamptz not null default now(),
+    primary key (user_id, idempotency_key)
+);
+
+alter table public."RegistrationRequest" enable row level security;
+
+-- Substance(새 물질이면 Synonyms/Properties/Citations 포함), Inventory, 감사 로그, 재전송 기록을 모두 한 번에 씁니다.
+-- 같은 사용자가 같은 idempotency key로 다시 요청하면 처음 결과를 그대로 돌려줍니다. (replayed: true)
+-- 이미 있는 물질이면 p_hazard_classes 중 빠진 위험 분류를 Substance.hazard_classes 에 더합니다.
+create or replace function public.register_inventory(
+    p_cas_rn text,
+    p_inventory jsonb,
+    p_substance jsonb default null,
+    p_synonyms text[] default '{}',
+    p_properties jsonb default '[]',
+    p_citations jsonb default '[]',
+    p_warnings jsonb default '[]',
+    p_actor_id uuid default null,
+    p_actor_email text default null,
+    p_actor_role text default null,
+    p_idempotency_key text default null,
+    p_hazard_classes text[] default '{}'
+) returns jsonb
+language plpgsql
+as $$
+declare
+    v_response jsonb;
+    v_substance public."Substance";
+    v_substance_before public."Substance";
+    v_inventory public."Inventory";
+    v_is_new boolean := false;
+begin
+    if p_idempotency_key is not null then
+        -- 같은 키로 동시에 들어온 요청은 먼저 들어온 요청이 끝날 때까지 기다립니다.
+        perform pg_advisory_xact_lock(hashtext(coalesce(p_actor_id::text, '') || ':' || p_idempotency_key));
+        select response into v_response
+            from public."RegistrationRequest"
+            where user_id = p_actor_id and idempotency_key = p_idempotency_key;
+        if found then
+            return v_response || jsonb_build_object('replayed', true);
+        end if;
+    end if;
+
+    select * into v_substance from public."Substance" where cas_rn = p_cas_rn;
+
+    if not found then
+        if p_substance is null then
+            raise exception using errcode = 'P0002', message = format('물질(CAS RN: %s) 정보가 필요합니다.', p_cas_rn);
+        end if;
+
+        -- 같은 물질을 동시에 등록하는 다른 요청이 먼저 넣었으면 그 행을 씁니다. (Substance_cas_rn_key 충돌로 실패하지 않도록)
+        insert into public."Substance" (cas_rn, name, uri, inchikey, molecular_formula, molecular_mass, has_molfile, svg_image, hazard_classes)
+            select p_cas_rn, s.name, s.uri, s.inchikey, s.molecular_formula, s.molecular_mass, coalesce(s.has_molfile, false), s.svg_image, coalesce(s.hazard_classes, '{}')
+            from jsonb_populate_record(null::public."Substance", p_substance) s
+            on conflict (cas_rn) do nothing
+            returning * into v_substance;
+        v_is_new := found;
+        if not v_is_new then
+            select * into v_substance from public."Substance" where cas_rn = p_cas_rn;
+        end if;
+    end if;
+
+    if v_is_new then
+        insert into public."Synonyms" (substance_id, name)
+            select v_substance.id, synonym from unnest(p_synonyms) as synonym;
+
+        insert into public."Properties" (substance_id, name, property, units, type)
+            select v_substance.id, p.name, p.property, p.units, p.type
+            from jsonb_to_recordset(p_properties) as p(name text, property text, units text, type text);
+
+        insert into public."Citations" (substance_id, source, url)
+            select v_substance.id, c.source, c.url
+            from jsonb_to_recordset(p_citations) as c(source text, url text);
+
+        insert into public."AuditLog" (actor_id, actor_email, actor_role, action, table_name, row_id, after)
+            values (p_actor_id, p_actor_email, p_actor_role, 'insert', 'Substance', v_substance.id::text, to_jsonb(v_substance));
+    elsif not coalesce(p_hazard_classes, '{}') <@ v_substance.hazard_classes then
+        v_substance_before := v_substance;
+        update public."Substance"
+            set hazard_classes = array(select distinct c from unnest(hazard_classes || p_hazard_classes) as c order by c)
+            where id = v_substance.id
+            returning * into v_substance;
+
+        insert into public."AuditLog" (actor_id, actor_email, actor_role, action, table_name, row_id, before, after)
+            values (p_actor_id, p_actor_email, p_actor_role, 'update', 'Substance', v_substance.id::text, to_jsonb(v_substance_before), to_jsonb(v_substance));
+    end if;
+
+    insert into public."Inventory" (
+        substance_id, bottle_identifier, initial_amount, unit, current_amount,
+        door_vertical, door_horizontal, internal_shelf_level, storage_column, cabinet_id,
+        classification, state, concentration_value, concentration_unit, manufacturer, purchase_date,
+        photo_url_320, photo_url_160, created_by
+    )
+        select v_substance.id, i.bottle_identifier, i.initial_amount, i.unit, i.current_amount,
+            i.door_vertical, i.door_horizontal, i.internal_shelf_level, i.storage_column, i.cabinet_id,
+            i.classification, i.state, i.concentration_value, i.concentration_unit, i.manufacturer, i.purchase_date,
+            i.photo_url_320, i.photo_url_160, p_actor_id
+        from jsonb_populate_record(null::public."Inventory", p_inventory) i
+        returning * into v_inventory;
+
+    insert into public."AuditLog" (actor_id, actor_email, actor_role, action, table_name, row_id, cabinet_ids, after)
+        values (p_actor_id, p_actor_email, p_actor_role, 'insert', 'Inventory', v_inventory.id::text,
+            case when v_inventory.cabinet_id is null then '{}'::bigint[] else array[v_inventory.cabinet_id] end,
+            to_jsonb(v_inventory));
+
+    v_response := jsonb_build_object(
+        'casRn', p_cas_rn,
+        'status', 'success',
+        'inventoryId', v_inventory.id,
+        'bottleIdentifier', v_inventory.bottle_identifier,
+        'isNewSubstance', v_is_new,
+        'warnings', coalesce(p_warnings, '[]'::jsonb)
+    );
+
+    if p_idempotency_key is not null then
+        insert into public."RegistrationRequest" (user_id, idempotency_key, inventory_id, response)
+            values (p_actor_id, p_idempotency_key, v_inventory.id, v_response);
+    end if;
+
+    return v_response || jsonb_build_object('replayed', false);
+end;
+$$;
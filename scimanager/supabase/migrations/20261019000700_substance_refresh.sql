@@ -0,0 +1,35 @@
+-- CAS 정보 새로고침: 마지막 새로고침 시각과 Synonyms/Properties/Citations 중복 방지
+
+alter table public."Substance"
+    add column if not exists refreshed_at timestamptz;
+
+-- 이미 쌓인 중복 행은 가장 먼저 들어온 행만 남기고 지웁니다.
+delete from public."Synonyms" a
+    using public."Synonyms" b
+    where a.substance_id = b.substance_id
+      and a.name is not distinct from b.name
+      and a.id > b.id;
+
+delete from public."Properties" a
+    using public."Properties" b
+    where a.substance_id = b.substance_id
+      and a.type is not distinct from b.type
+      and a.name is not distinct from b.name
+      and a.property is not distinct from b.property
+      and a.id > b.id;
+
+delete from public."Citations" a
+    using public."Citations" b
+    where a.substance_id = b.substance_id
+      and a.source is not distinct from b.source
+      and a.url is not distinct from b.url
+      and a.id > b.id;
+
+create unique index if not exists "Synonyms_substance_name_key"
+    on public."Synonyms" (substance_id, coalesce(name, ''));
+
+create unique index if not exists "Properties_substance_property_key"
+    on public."Properties" (substance_id, coalesce(type, ''), coalesce(name, ''), coalesce(property, ''));
+
+create unique index if not exists "Citations_substance_citation_key"
+    on public."Citations" (substance_id, coalesce(source, ''), coalesce(url, ''));
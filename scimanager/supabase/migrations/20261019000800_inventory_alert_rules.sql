@@ -0,0 +1,32 @@
+-- 유효기간(보관 기한)과 재고 부족 알림 기준
+-- 적용 순서: 물질별 규칙 → 분류(Inventory.classification)별 규칙 → 기본 규칙(둘 다 null)
+-- 항목별로 더 구체적인 규칙에 값이 없으면 다음 규칙의 값을 씁니다.
+
+create table if not exists public."InventoryAlertRule" (
+    id bigint generated by default as identity primary key,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    substance_id bigint references public."Substance"(id) on delete cascade,
+    classification text,
+    -- 구입일로부터 며칠까지 쓸 수 있는지 (null이면 기한 없음)
+    shelf_life_days integer check (shelf_life_days > 0),
+    -- 기한 며칠 전부터 '곧 만료'로 알릴지
+    expiry_warning_days integer check (expiry_warning_days >= 0),
+    -- 잔량이 구입량의 몇 배 이하이면 '재고 부족'으로 알릴지 (0.2 = 20%)
+    low_stock_ratio numeric check (low_stock_ratio >= 0 and low_stock_ratio < 1),
+    constraint "InventoryAlertRule_scope_check" check (substance_id is null or classification is null)
+);
+
+create unique index if not exists "InventoryAlertRule_substance_key"
+    on public."InventoryAlertRule" (substance_id) where substance_id is not null;
+create unique index if not exists "InventoryAlertRule_classification_key"
+    on public."InventoryAlertRule" (classification) where classification is not null;
+create unique index if not exists "InventoryAlertRule_default_key"
+    on public."InventoryAlertRule" ((true)) where substance_id is null and classification is null;
+
+alter table public."InventoryAlertRule" enable row level security;
+
+-- 기본 규칙: 기한 없음, 만료 30일 전 알림, 잔량 20% 이하이면 재고 부족
+insert into public."InventoryAlertRule" (shelf_life_days, expiry_warning_days, low_stock_ratio)
+    select null, 30, 0.2
+    where not exists (select 1 from public."InventoryAlertRule" where substance_id is null and classification is null);
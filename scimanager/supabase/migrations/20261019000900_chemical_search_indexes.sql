@@ -0,0 +1,18 @@
+-- 약품 검색(chemical-search): 이름/동의어/분자식의 부분 일치(ilike '%...%') 검색용 trigram 인덱스
+
+create extension if not exists pg_trgm with schema extensions;
+
+create index if not exists "Substance_name_trgm_idx"
+    on public."Substance" using gin (name extensions.gin_trgm_ops);
+
+create index if not exists "Substance_molecular_formula_trgm_idx"
+    on public."Substance" using gin (molecular_formula extensions.gin_trgm_ops);
+
+create index if not exists "Synonyms_name_trgm_idx"
+    on public."Synonyms" using gin (name extensions.gin_trgm_ops);
+
+create index if not exists "Substance_inchikey_idx"
+    on public."Substance" (inchikey);
+
+create index if not exists "Inventory_substance_id_idx"
+    on public."Inventory" (substance_id);
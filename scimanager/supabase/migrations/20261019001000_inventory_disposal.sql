@@ -0,0 +1,212 @@
+-- 병 폐기와 폐기물(폐액통) 관리
+-- 폐기한 병은 지우지 않고 disposed_at을 남겨 이력과 감사 로그에서 계속 볼 수 있게 합니다.
+
+-- 폐액통/폐기물 용기: 폐기물 종류별로 모으다가 가득 차면 닫고(closed_at), 업체가 가져가면 수거일(collected_at)을 기록합니다.
+create table if not exists public."WasteContainer" (
+    id bigint generated by default as identity primary key,
+    created_at timestamptz not null default now(),
+    name text not null,
+    waste_category text not null check (waste_category in (
+        'acid', 'alkali', 'halogenated_organic', 'non_halogenated_organic', 'heavy_metal', 'oxidizer', 'toxic', 'solid', 'other'
+    )),
+    area_id bigint references public."Area"(id) on delete set null,
+    unit text not null,
+    capacity numeric check (capacity > 0),
+    current_amount numeric not null default 0 check (current_amount >= 0),
+    opened_at timestamptz not null default now(),
+    closed_at timestamptz,
+    collected_at timestamptz,
+    note text,
+    created_by uuid references auth.users(id) on delete set null
+);
+
+alter table public."WasteContainer" enable row level security;
+
+-- 병 한 개의 폐기 기록. 시약장이 나중에 지워져도 어디에 있었는지 알 수 있도록 위치를 글로 함께 남깁니다.
+-- 폐기 기록이 있는 병은 지울 수 없습니다. (병을 지우면 폐기 이력과 인계서가 함께 사라지므로)
+create table if not exists public."Disposal" (
+    id bigint generated by default as identity primary key,
+    created_at timestamptz not null default now(),
+    inventory_id bigint not null unique references public."Inventory"(id) on delete restrict,
+    substance_id bigint references public."Substance"(id) on delete set null,
+    reason text not null check (reason in ('empty', 'expired', 'contaminated', 'other')),
+    method text not null check (method in ('waste_container', 'vendor_pickup', 'neutralized', 'other')),
+    disposed_on date not null default current_date,
+    -- 폐기 당시 병에 남아 있던 양 (병 단위)
+    amount numeric not null default 0 check (amount >= 0),
+    unit text,
+    waste_container_id bigint references public."WasteContainer"(id) on delete set null,
+    -- 폐액통에 옮긴 양 (폐액통 단위)
+    waste_amount numeric check (waste_amount >= 0),
+    cabinet_id bigint references public."Cabinet"(id) on delete set null,
+    location text,
+    note text,
+    disposed_by uuid references auth.users(id) on delete set null,
+    constraint "Disposal_waste_container_check" check (method <> 'waste_container' or waste_container_id is not null)
+);
+
+create index if not exists "Disposal_disposed_on_idx" on public."Disposal" (disposed_on desc);
+create index if not exists "Disposal_waste_container_id_idx" on public."Disposal" (waste_container_id);
+
+alter table public."Disposal" enable row level security;
+
+alter table public."Inventory"
+    add column if not exists disposed_at timestamptz;
+
+create index if not exists "Inventory_active_cabinet_idx"
+    on public."Inventory" (cabinet_id) where disposed_at is null;
+
+-- 폐기한 병은 칸을 차지하지 않습니다. (칸 좌표는 이력으로 남겨 둡니다.)
+drop index if exists public."Inventory_slot_unique";
+
+create unique index if not exists "Inventory_slot_unique"
+    on public."Inventory" (cabinet_id, door_vertical, door_horizontal, internal_shelf_level, storage_column)
+    where cabinet_id is not null
+      and door_vertical is not null
+      and door_horizontal is not null
+      and internal_shelf_level is not null
+      and storage_column is not null
+      and disposed_at is null;
+
+-- 폐기 기록, 병 상태 변경, 폐액통 양 증가, 감사 로그를 한 트랜잭션에서 처리합니다.
+-- 오류 코드: P0002(병/폐액통 없음), 55000(이미 폐기했거나 닫힌 폐액통), 22023(잘못된 값), 23514(폐액통 용량 초과)
+create or replace function public.dispose_inventory(
+    p_inventory_id bigint,
+    p_reason text,
+    p_method text,
+    p_disposed_on date default current_date,
+    p_waste_container_id bigint default null,
+    p_waste_amount numeric default null,
+    p_location text default null,
+    p_note text default null,
+    p_actor_id uuid default null,
+    p_actor_email text default null,
+    p_actor_role text default null
+) returns public."Disposal"
+language plpgsql
+as $$
+declare
+    v_before public."Inventory";
+    v_inventory public."Inventory";
+    v_container public."WasteContainer";
+    v_container_after public."WasteContainer";
+    v_disposal public."Disposal";
+begin
+    select * into v_before from public."Inventory" where id = p_inventory_id for update;
+    if not found then
+        raise exception using errcode = 'P0002', message = format('재고(ID: %s)를 찾을 수 없습니다.', p_inventory_id);
+    end if;
+    if v_before.disposed_at is not null then
+        raise exception using errcode = '55000', message = format('이미 폐기한 병입니다. (ID: %s)', p_inventory_id);
+    end if;
+
+    if p_method = 'waste_container' then
+        if p_waste_container_id is null then
+            raise exception using errcode = '22023', message = '폐액통(waste_container_id)을 지정해야 합니다.';
+        end if;
+        select * into v_container from public."WasteContainer" where id = p_waste_container_id for update;
+        if not found then
+            raise exception using errcode = 'P0002', message = format('폐액통(ID: %s)을 찾을 수 없습니다.', p_waste_container_id);
+        end if;
+        if v_container.closed_at is not null then
+            raise exception using errcode = '55000', message = format('이미 닫은 폐액통입니다: %s', v_container.name);
+        end if;
+        if v_container.capacity is not null and v_container.current_amount + coalesce(p_waste_amount, 0) > v_container.capacity then
+            raise exception using errcode = '23514',
+                message = format('폐액통 용량을 넘습니다. (%s: %s / %s %s, 추가 %s)', v_container.name, v_container.current_amount, v_container.capacity, v_container.unit, coalesce(p_waste_amount, 0));
+        end if;
+    end if;
+
+    insert into public."Disposal" (
+        inventory_id, substance_id, reason, method, disposed_on, amount, unit,
+        waste_container_id, waste_amount, cabinet_id, location, note, disposed_by
+    )
+        values (
+            v_before.id, v_before.substance_id, p_reason, p_method, coalesce(p_disposed_on, current_date),
+            coalesce(v_before.current_amount, 0), v_before.unit,
+            case when p_method = 'waste_container' then p_waste_container_id end,
+            case when p_method = 'waste_container' then coalesce(p_waste_amount, 0) end,
+            v_before.cabinet_id, p_location, p_note, p_actor_id
+        )
+        returning * into v_disposal;
+
+    update public."Inventory"
+        set disposed_at = now(), current_amount = 0
+        where id = p_inventory_id
+        returning * into v_inventory;
+
+    insert into public."AuditLog" (actor_id, actor_email, actor_role, action, table_name, row_id, cabinet_ids, before, after)
+        values
+            (p_actor_id, p_actor_email, p_actor_role, 'update', 'Inventory', v_inventory.id::text,
+                case when v_inventory.cabinet_id is null then '{}'::bigint[] else array[v_inventory.cabinet_id] end,
+                to_jsonb(v_before), to_jsonb(v_inventory)),
+            (p_actor_id, p_actor_email, p_actor_role, 'insert', 'Disposal', v_disposal.id::text,
+                case when v_disposal.cabinet_id is null then '{}'::bigint[] else array[v_disposal.cabinet_id] end,
+                null, to_jsonb(v_disposal));
+
+    if v_disposal.waste_container_id is not null then
+        update public."WasteContainer"
+            set current_amount = current_amount + v_disposal.waste_amount
+            where id = v_disposal.waste_container_id
+            returning * into v_container_after;
+
+        insert into public."AuditLog" (actor_id, actor_email, actor_role, action, table_name, row_id, before, after)
+            values (p_actor_id, p_actor_email, p_actor_role, 'update', 'WasteContainer', v_container_after.id::text,
+                to_jsonb(v_container), to_jsonb(v_container_after));
+    end if;
+
+    return v_disposal;
+end;
+$$;
+
+-- 폐기한 병에는 사용 기록을 남길 수 없습니다. (나머지는 20261019000400과 같습니다.)
+create or replace function public.record_inventory_usage(
+    p_inventory_id bigint,
+    p_amount numeric,
+    p_unit text,
+    p_used_by text,
+    p_purpose text default null,
+    p_used_at timestamptz default now(),
+    p_recorded_by uuid default null
+) returns public."UsageHistory"
+language plpgsql
+as $$
+declare
+    v_inventory public."Inventory";
+    v_usage public."UsageHistory";
+begin
+    if p_amount is null or p_amount <= 0 then
+        raise exception using errcode = '22023', message = '사용량은 0보다 커야 합니다.';
+    end if;
+
+    select * into v_inventory from public."Inventory" where id = p_inventory_id for update;
+    if not found then
+        raise exception using errcode = 'P0002', message = format('재고(ID: %s)를 찾을 수 없습니다.', p_inventory_id);
+    end if;
+
+    if v_inventory.disposed_at is not null then
+        raise exception using errcode = '55000', message = format('폐기한 병입니다. (ID: %s)', p_inventory_id);
+    end if;
+
+    if v_inventory.unit is distinct from p_unit then
+        raise exception using errcode = '22023',
+            message = format('단위가 일치하지 않습니다. (재고: %s, 요청: %s)', v_inventory.unit, p_unit);
+    end if;
+
+    if coalesce(v_inventory.current_amount, 0) < p_amount then
+        raise exception using errcode = '23514',
+            message = format('잔량(%s %s)보다 많이 사용할 수 없습니다.', coalesce(v_inventory.current_amount, 0), v_inventory.unit);
+    end if;
+
+    update public."Inventory"
+        set current_amount = current_amount - p_amount
+        where id = p_inventory_id
+        returning * into v_inventory;
+
+    insert into public."UsageHistory" (inventory_id, amount, unit, used_by, purpose, used_at, remaining_amount, recorded_by)
+        values (p_inventory_id, p_amount, p_unit, p_used_by, p_purpose, coalesce(p_used_at, now()), v_inventory.current_amount, p_recorded_by)
+        returning * into v_usage;
+
+    return v_usage;
+end;
+$$;
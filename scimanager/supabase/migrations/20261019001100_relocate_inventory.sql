@@ -0,0 +1,48 @@
+-- 시약장을 지우기 전에 병들을 다른 시약장으로 옮기는 작업을 한 트랜잭션으로 처리합니다.
+-- 중간에 실패하면 아무 병도 옮겨지지 않습니다. (칸 배치와 혼합 금지 판정은 _shared/cabinets.ts 에서 미리 합니다.)
+-- p_moves 형식: [{ id, door_vertical, door_horizontal, internal_shelf_level, storage_column }, ...]
+-- 오류 코드: 55000(병이 이미 다른 곳으로 옮겨졌거나 폐기됨), 23505(대상 칸을 동시에 다른 병이 차지함)
+create or replace function public.relocate_inventory(
+    p_source_cabinet_id bigint,
+    p_target_cabinet_id bigint,
+    p_moves jsonb,
+    p_actor_id uuid default null,
+    p_actor_email text default null,
+    p_actor_role text default null
+) returns integer
+language plpgsql
+as $$
+declare
+    v_move record;
+    v_before public."Inventory";
+    v_after public."Inventory";
+    v_count integer := 0;
+begin
+    for v_move in
+        select * from jsonb_to_recordset(p_moves)
+            as m(id bigint, door_vertical integer, door_horizontal integer, internal_shelf_level integer, storage_column integer)
+    loop
+        select * into v_before from public."Inventory" where id = v_move.id for update;
+        if not found or v_before.cabinet_id is distinct from p_source_cabinet_id or v_before.disposed_at is not null then
+            raise exception using errcode = '55000',
+                message = format('병(ID: %s)이 더 이상 시약장(ID: %s)에 없습니다. 다시 시도해 주세요.', v_move.id, p_source_cabinet_id);
+        end if;
+
+        update public."Inventory"
+            set cabinet_id = p_target_cabinet_id,
+                door_vertical = v_move.door_vertical,
+                door_horizontal = v_move.door_horizontal,
+                internal_shelf_level = v_move.internal_shelf_level,
+                storage_column = v_move.storage_column
+            where id = v_move.id
+            returning * into v_after;
+
+        insert into public."AuditLog" (actor_id, actor_email, actor_role, action, table_name, row_id, cabinet_ids, before, after)
+            values (p_actor_id, p_actor_email, p_actor_role, 'update', 'Inventory', v_after.id::text,
+                array[p_source_cabinet_id, p_target_cabinet_id], to_jsonb(v_before), to_jsonb(v_after));
+        v_count := v_count + 1;
+    end loop;
+
+    return v_count;
+end;
+$$;
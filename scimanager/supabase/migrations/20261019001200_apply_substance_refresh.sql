@@ -0,0 +1,98 @@
+-- CAS 정보 새로고침(substance-refresh)의 변경 내용을 한 트랜잭션으로 반영합니다. 중간에 실패하면 아무것도 바뀌지 않습니다.
+-- p_changes는 substance-refresh가 계산한 차이입니다:
+--   { fields: { 컬럼: { before, after } }, synonyms: { added, removed },
+--     properties: { added, updated: [{ before, after }], removed }, citations: { added, removed } }
+-- Properties/Citations 행은 _shared/casClient.ts 의 propertyKey/citationKey와 같은 값(type/name/property, source/url)으로 찾습니다.
+-- 변경이 없어도 refreshed_at은 갱신해서 다음 배치에서 뒤로 밀리게 합니다.
+create or replace function public.apply_substance_refresh(
+    p_substance_id bigint,
+    p_changes jsonb,
+    p_actor_id uuid default null,
+    p_actor_email text default null,
+    p_actor_role text default null
+) returns public."Substance"
+language plpgsql
+as $$
+declare
+    v_before public."Substance";
+    v_after public."Substance";
+    v_changed boolean;
+begin
+    select * into v_before from public."Substance" where id = p_substance_id for update;
+    if not found then
+        raise exception using errcode = 'P0002', message = format('물질(ID: %s)을 찾을 수 없습니다.', p_substance_id);
+    end if;
+
+    delete from public."Synonyms"
+        where substance_id = p_substance_id
+          and name in (select jsonb_array_elements_text(coalesce(p_changes->'synonyms'->'removed', '[]')));
+
+    insert into public."Synonyms" (substance_id, name)
+        select p_substance_id, name from jsonb_array_elements_text(coalesce(p_changes->'synonyms'->'added', '[]')) as name
+        on conflict do nothing;
+
+    delete from public."Properties" p
+        using jsonb_to_recordset(coalesce(p_changes->'properties'->'removed', '[]')) as r(name text, property text, type text)
+        where p.substance_id = p_substance_id
+          and p.type is not distinct from r.type
+          and p.name is not distinct from r.name
+          and p.property is not distinct from r.property;
+
+    update public."Properties" p
+        set units = u.after->>'units'
+        from (select value->'after' as after from jsonb_array_elements(coalesce(p_changes->'properties'->'updated', '[]'))) as u
+        where p.substance_id = p_substance_id
+          and p.type is not distinct from u.after->>'type'
+          and p.name is not distinct from u.after->>'name'
+          and p.property is not distinct from u.after->>'property';
+
+    insert into public."Properties" (substance_id, name, property, units, type)
+        select p_substance_id, p.name, p.property, p.units, p.type
+        from jsonb_to_recordset(coalesce(p_changes->'properties'->'added', '[]')) as p(name text, property text, units text, type text)
+        on conflict do nothing;
+
+    delete from public."Citations" c
+        using jsonb_to_recordset(coalesce(p_changes->'citations'->'removed', '[]')) as r(source text, url text)
+        where c.substance_id = p_substance_id
+          and c.source is not distinct from r.source
+          and c.url is not distinct from r.url;
+
+    insert into public."Citations" (substance_id, source, url)
+        select p_substance_id, c.source, c.url
+        from jsonb_to_recordset(coalesce(p_changes->'citations'->'added', '[]')) as c(source text, url text)
+        on conflict do nothing;
+
+    -- fields의 after 값만 덮어쓰고 나머지 컬럼은 그대로 둡니다.
+    update public."Substance" s
+        set name = r.name,
+            uri = r.uri,
+            inchikey = r.inchikey,
+            molecular_formula = r.molecular_formula,
+            molecular_mass = r.molecular_mass,
+            has_molfile = r.has_molfile,
+            svg_image = r.svg_image,
+            refreshed_at = now()
+        from jsonb_populate_record(v_before, (
+            select coalesce(jsonb_object_agg(f.key, f.value->'after'), '{}')
+            from jsonb_each(coalesce(p_changes->'fields', '{}')) as f
+        )) as r
+        where s.id = p_substance_id
+        returning s.* into v_after;
+
+    v_changed := coalesce(p_changes->'fields', '{}') <> '{}'
+        or exists (
+            select 1
+            from jsonb_each(p_changes - 'fields') as section
+            cross join jsonb_each(section.value) as list
+            where jsonb_typeof(list.value) = 'array' and jsonb_array_length(list.value) > 0
+        );
+
+    if v_changed then
+        insert into public."AuditLog" (actor_id, actor_email, actor_role, action, table_name, row_id, before, after)
+            values (p_actor_id, p_actor_email, p_actor_role, 'update', 'Substance', v_after.id::text,
+                to_jsonb(v_before), to_jsonb(v_after) || jsonb_build_object('refresh_changes', p_changes));
+    end if;
+
+    return v_after;
+end;
+$$;